@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+/**
+ * This file is the entry point for the administration CLI (quotes-admin). It loads quotes from wiki dumps and manages
+ * the stored data independently of the HTTP server.
+ *
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import { parseArgs } from "node:util"
+import { Container } from "typedi"
+import { DataSource } from "typeorm"
+
+import { AdminCommands } from "./commands"
+import { DataSourceProvider } from "./providers"
+import { BudgetExceededError } from "./parsing"
+
+/**
+ * Help for the CLI
+ */
+const USAGE = `Usage: quotes-admin <command> [options]
+
+Commands:
+  load <dump...> [--batch] [--budget <USD>] [--estimate]  Load quotes from wiki dumps
+       [--page-props <path>]                              (with Wikidata items of pages from the page properties dump)
+  refresh [lang...] [--batch] [--budget <USD>] [--watch]  Download the newest wiki dumps from the mirror and load them
+  link-translations [--budget <USD>]                       Link quotes with their translations in other languages
+  status [dump...]                                         Show state of wiki dumps and latest runs of loading
+  reset-checkpoint <dump...> [--done]                      Process wiki dumps from the start next time
+  purge --lang <abbreviation>                              Delete quotes and pages of the language
+  invalidate-cache <prompt> [--version <number>]           Delete cached responses of language models
+
+Exit codes: 0 = success, 1 = failure, 2 = invalid usage, 3 = budget would be exceeded`
+
+/**
+ * Error for invalid usage of the CLI (missing or invalid arguments)
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses arguments of the CLI
+ *
+ * @returns Positional arguments (command and its arguments) and options
+ * @throws UsageError If there is an unknown or invalid option
+ */
+const parseCliArgs = (): ReturnType<typeof parseOptions> => {
+  try {
+    return parseOptions()
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Parses options of the CLI (see parseCliArgs())
+ *
+ * @returns Positional arguments and options
+ */
+const parseOptions = () =>
+  parseArgs({
+    allowPositionals: true,
+    options: {
+      batch: { type: "boolean" },
+      budget: { type: "string" },
+      estimate: { type: "boolean" },
+      "page-props": { type: "string" },
+      watch: { type: "boolean" },
+      done: { type: "boolean" },
+      lang: { type: "string" },
+      version: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+/**
+ * Parses the numeric option
+ *
+ * @param name Name of the option
+ * @param value Value of the option (undefined if not set)
+ * @returns Parsed number (undefined if not set)
+ * @throws UsageError If the value isn't a number
+ */
+const parseNumber = (
+  name: string,
+  value: string | undefined,
+): number | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const number = Number(value)
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw new UsageError(`Option --${name} must be a number`)
+  }
+
+  return number
+}
+
+void (async (): Promise<void> => {
+  let exitCode = 0
+  let dataSource: DataSource | undefined
+  try {
+    const { positionals, values } = parseCliArgs()
+    const [command, ...args] = positionals
+    const budget = parseNumber("budget", values.budget)
+    const version = parseNumber("version", values.version)
+
+    if (values.help || positionals.length === 0) {
+      console.log(USAGE)
+      return
+    }
+
+    // Initialize database ORM
+    dataSource = Container.get(DataSourceProvider).provide()
+    await dataSource.initialize()
+
+    const adminCommands = Container.get(AdminCommands)
+    switch (command) {
+      case "load":
+        if (args.length === 0) {
+          throw new UsageError("No wiki dump to load")
+        } else if (values["page-props"] !== undefined && args.length !== 1) {
+          throw new UsageError(
+            "Option --page-props requires a single wiki dump",
+          )
+        }
+        await adminCommands.load(args, {
+          batchMode: values.batch,
+          budget: budget,
+          estimate: values.estimate,
+          pagePropsPath: values["page-props"],
+        })
+        break
+      case "refresh":
+        await adminCommands.refresh(args, {
+          batchMode: values.batch,
+          budget: budget,
+          watch: values.watch,
+        })
+        break
+      case "link-translations":
+        await adminCommands.linkTranslations(budget)
+        break
+      case "status":
+        await adminCommands.status(args)
+        break
+      case "reset-checkpoint":
+        if (args.length === 0) {
+          throw new UsageError("No wiki dump to reset")
+        }
+        adminCommands.resetCheckpoint(args, values.done === true)
+        break
+      case "purge":
+        if (values.lang === undefined) {
+          throw new UsageError("Option --lang is required")
+        }
+        await adminCommands.purge(values.lang)
+        break
+      case "invalidate-cache":
+        if (args.length !== 1) {
+          throw new UsageError("Exactly one prompt name is required")
+        }
+        await adminCommands.invalidateCache(args[0], version)
+        break
+      default:
+        throw new UsageError(`Unknown command ${command}`)
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`)
+      exitCode = 2
+    } else if (error instanceof BudgetExceededError) {
+      console.error(`[WARNING] ${error.message}`)
+      exitCode = 3
+    } else {
+      console.error(error)
+      exitCode = 1
+    }
+  } finally {
+    if (dataSource?.isInitialized) {
+      await dataSource.destroy()
+    }
+  }
+
+  process.exit(exitCode)
+})()
@@ -0,0 +1,322 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+
+import {
+  LoadOptions,
+  QuoteTranslationLinker,
+  WikiDumpFetcher,
+  WikiquoteLoader,
+} from "../loading"
+import { BudgetExceededError } from "../parsing"
+import { ConfigProvider, DumpMirrorConfig } from "../providers"
+import {
+  AiCacheService,
+  AuthorService,
+  DumpRunService,
+  LanguageService,
+  PageService,
+  QuoteService,
+  QuoteTranslationService,
+} from "../services"
+
+/**
+ * Options of the load command
+ *
+ * @property estimate Only estimate costs of loading (no requests to language models, no writes to the database)
+ */
+export interface LoadCommandOptions extends LoadOptions {
+  estimate?: boolean
+}
+
+/**
+ * Options of the refresh command
+ *
+ * @property watch Keep refreshing periodically (see DUMP_REFRESH_INTERVAL) instead of a single refresh
+ */
+export interface RefreshCommandOptions extends LoadOptions {
+  watch?: boolean
+}
+
+/**
+ * Administration commands for managing loading of quotes and the stored data
+ *
+ * Commands are run from the CLI (see cli.ts), so they share the DI container
+ * (and the whole configuration) with the HTTP server, but they run in their
+ * own process.
+ */
+@Service()
+export class AdminCommands {
+  /**
+   * Number of latest dump runs shown by the status command
+   */
+  private readonly STATUS_RUNS = 10
+
+  /**
+   * Configuration for discovering and downloading new wiki dumps
+   */
+  private readonly dumpMirrorConfig: DumpMirrorConfig
+
+  /**
+   * Constructor for AdminCommands
+   *
+   * @param wikiquoteLoader Loader of quotes from wiki dumps (dependency)
+   * @param wikiDumpFetcher Fetcher of wiki dumps from the mirror (dependency)
+   * @param quoteTranslationLinker Linker of quotes across languages (dependency)
+   * @param languageService Language service (dependency)
+   * @param quoteService Quote service (dependency)
+   * @param quoteTranslationService Quote translation service (dependency)
+   * @param pageService Page service (dependency)
+   * @param authorService Author service (dependency)
+   * @param dumpRunService Dump run service (dependency)
+   * @param aiCacheService AI cache service (dependency)
+   * @param configProvider Config provider (dependency)
+   */
+  public constructor(
+    private readonly wikiquoteLoader: WikiquoteLoader,
+    private readonly wikiDumpFetcher: WikiDumpFetcher,
+    private readonly quoteTranslationLinker: QuoteTranslationLinker,
+    private readonly languageService: LanguageService,
+    private readonly quoteService: QuoteService,
+    private readonly quoteTranslationService: QuoteTranslationService,
+    private readonly pageService: PageService,
+    private readonly authorService: AuthorService,
+    private readonly dumpRunService: DumpRunService,
+    private readonly aiCacheService: AiCacheService,
+    configProvider: ConfigProvider,
+  ) {
+    this.dumpMirrorConfig = configProvider.provideDumpMirrorConfig()
+  }
+
+  /**
+   * Loads quotes from the wiki dumps (one by one)
+   *
+   * The budget is applied to each dump separately.
+   *
+   * @param paths Paths to the wiki dump files
+   * @param options Options of the loading
+   * @throws UnsupportedLanguageError If there is no content parser for the language of a dump
+   * @throws BudgetExceededError If loading was stopped before exceeding the budget (the remaining dumps aren't loaded)
+   */
+  public async load(
+    paths: string[],
+    options: LoadCommandOptions,
+  ): Promise<void> {
+    for (const path of paths) {
+      if (options.estimate) {
+        await this.wikiquoteLoader.estimateWikiDump(path, options.pagePropsPath)
+      } else {
+        await this.wikiquoteLoader.loadQuotesFromWikiDump(path, options)
+      }
+    }
+  }
+
+  /**
+   * Downloads the newest wiki dumps of the languages from the mirror and loads them
+   *
+   * Already loaded dumps are skipped, so the command could be run periodically
+   * (e.g., by cron). In watch mode, it runs periodically by itself, and failures
+   * of single refreshes don't stop it.
+   *
+   * @param languages Abbreviations of languages (configured languages if empty)
+   * @param options Options of the loading
+   * @throws Error If some of the languages failed to refresh (not in watch mode)
+   * @throws BudgetExceededError If loading was stopped before exceeding the budget (not in watch mode)
+   */
+  public async refresh(
+    languages: string[],
+    options: RefreshCommandOptions,
+  ): Promise<void> {
+    const refreshedLanguages =
+      languages.length === 0 ? this.dumpMirrorConfig.languages : languages
+
+    for (;;) {
+      try {
+        await this.refreshLanguages(refreshedLanguages, options)
+      } catch (error) {
+        if (!options.watch) {
+          throw error
+        }
+        console.error(error)
+      }
+
+      if (!options.watch) {
+        return
+      }
+
+      console.log(
+        `[INFO] Next refresh of wiki dumps at ${new Date(Date.now() + this.dumpMirrorConfig.refreshInterval).toISOString()}`,
+      )
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.dumpMirrorConfig.refreshInterval),
+      )
+    }
+  }
+
+  /**
+   * Links quotes with their translations in other languages
+   *
+   * Linking should be run after loading new wiki dumps. Already linked
+   * quotes are kept, so only the new ones are compared.
+   *
+   * @param budget Budget of the linking in USD (unlimited if not set)
+   * @throws BudgetExceededError If linking was stopped before exceeding the budget
+   */
+  public async linkTranslations(budget?: number): Promise<void> {
+    await this.quoteTranslationLinker.linkTranslations(budget ?? null)
+  }
+
+  /**
+   * Prints processing state of the wiki dumps and the latest dump runs
+   *
+   * @param paths Paths to the wiki dump files
+   */
+  public async status(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      const status = this.wikiquoteLoader.inspectWikiDump(path)
+
+      let state = "not processed"
+      if (status.done) {
+        state = "processed"
+      } else if (status.checkpoint !== null) {
+        state = `partially processed (continues from page ${status.checkpoint.lastPageTitle}, checkpoint from ${new Date(status.checkpoint.timestamp).toISOString()})`
+      }
+      console.log(
+        `[INFO] Wiki dump ${status.dumpName}: ${state}${status.batchJob ? ", unfinished batch job" : ""}`,
+      )
+    }
+
+    const dumpRuns = await this.dumpRunService.fetchLatest(this.STATUS_RUNS)
+    if (dumpRuns.length === 0) {
+      console.log(`[INFO] No wiki dump was loaded yet`)
+      return
+    }
+
+    console.log(`[INFO] Latest runs of loading wiki dumps:`)
+    for (const dumpRun of dumpRuns) {
+      console.log(
+        `[INFO]   - ${dumpRun.startedAt.toISOString()} ${dumpRun.dumpName} (${dumpRun.language.abbreviation}): ${dumpRun.status}, ${String(dumpRun.requests)} requests for ${dumpRun.cost.toFixed(4)} USD${dumpRun.budget === null ? "" : ` of ${String(dumpRun.budget)} USD budget`}`,
+      )
+    }
+  }
+
+  /**
+   * Resets checkpoints of the wiki dumps, so they are processed from the start
+   *
+   * @param paths Paths to the wiki dump files
+   * @param includingDone Should completely processed dumps be processed again as well?
+   */
+  public resetCheckpoint(paths: string[], includingDone: boolean): void {
+    for (const path of paths) {
+      const removedFiles = this.wikiquoteLoader.resetWikiDump(
+        path,
+        includingDone,
+      )
+
+      if (removedFiles.length === 0) {
+        console.log(`[WARNING] Wiki dump ${path} has nothing to reset`)
+      }
+      for (const removedFile of removedFiles) {
+        console.log(`[INFO] Removed ${removedFile}`)
+      }
+    }
+  }
+
+  /**
+   * Deletes all quotes, pages, and translated author names of the language
+   *
+   * Authors without any remaining quote and translation groups with less than
+   * 2 remaining quotes are deleted as well. Wiki dumps of the language need to
+   * be reset (see resetCheckpoint()) to be loaded again.
+   *
+   * @param languageAbbreviation Abbreviation of the language (e.g., "cs" for Czech)
+   * @throws NotFoundError If the language is not in the database
+   */
+  public async purge(languageAbbreviation: string): Promise<void> {
+    const language =
+      await this.languageService.fetchByAbbreviation(languageAbbreviation)
+
+    const quotes = await this.quoteService.deleteAllByLanguage(language)
+    const pages = await this.pageService.deleteAllByLanguage(language)
+    const translations =
+      await this.quoteTranslationService.deleteAllIncomplete()
+    const translatedNames =
+      await this.authorService.deleteTranslatedFullNamesByLanguage(language)
+    const authors = await this.authorService.deleteAllWithoutQuotes()
+
+    console.log(
+      `[INFO] Purged ${language.englishName}: ${String(quotes)} quotes, ${String(pages)} pages, ${String(translations)} translation groups, ${String(translatedNames)} translated author names, ${String(authors)} authors without quotes`,
+    )
+  }
+
+  /**
+   * Downloads the newest wiki dumps of the languages and loads them (once)
+   *
+   * A failure of one language doesn't stop refreshing the others, except for
+   * exceeding the budget.
+   *
+   * @param languages Abbreviations of languages
+   * @param options Options of the loading
+   * @throws Error If some of the languages failed to refresh
+   * @throws BudgetExceededError If loading was stopped before exceeding the budget
+   */
+  private async refreshLanguages(
+    languages: string[],
+    options: LoadOptions,
+  ): Promise<void> {
+    const failedLanguages = []
+    for (const language of languages) {
+      try {
+        const dump = await this.wikiDumpFetcher.findNewest(language)
+        if (dump === null) {
+          console.log(
+            `[WARNING] No finished wiki dump of language ${language} found on ${this.dumpMirrorConfig.mirrorUrl}`,
+          )
+          continue
+        }
+
+        const path = await this.wikiDumpFetcher.download(dump)
+        await this.wikiquoteLoader.loadQuotesFromWikiDump(path, options)
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error
+        }
+
+        console.error(error)
+        console.log(
+          `[ERROR] Failed to refresh wiki dump of language ${language}`,
+        )
+        failedLanguages.push(language)
+      }
+    }
+
+    if (failedLanguages.length > 0) {
+      throw new Error(
+        `Failed to refresh wiki dumps of languages ${failedLanguages.join(", ")}`,
+      )
+    }
+  }
+
+  /**
+   * Invalidates (deletes) cached responses of language models for the prompt
+   *
+   * @param promptName Name of the prompt (e.g., "quote" for quote scoring)
+   * @param promptVersion Version of the prompt to invalidate (all versions if not set)
+   */
+  public async invalidateCache(
+    promptName: string,
+    promptVersion?: number,
+  ): Promise<void> {
+    const deletedEntries = await this.aiCacheService.invalidate(
+      promptName,
+      promptVersion,
+    )
+
+    console.log(
+      `[INFO] Invalidated ${String(deletedEntries)} cached responses of prompt ${promptName}`,
+    )
+  }
+}
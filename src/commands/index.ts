@@ -0,0 +1,10 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+export {
+  AdminCommands,
+  LoadCommandOptions,
+  RefreshCommandOptions,
+} from "./admin.commands"
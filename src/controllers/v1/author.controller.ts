@@ -4,12 +4,27 @@
  */
 
 import { Service } from "typedi"
-import { Get, JsonController, Params } from "routing-controllers"
+import { Request } from "express"
+import {
+  Get,
+  JsonController,
+  Params,
+  QueryParams,
+  Req,
+} from "routing-controllers"
 import { plainToInstance } from "class-transformer"
 
 import { AuthorService, LanguageService } from "../../services"
 
-import { LangParams, AuthorResponseDto } from "./dto"
+import {
+  LangParams,
+  AuthorFilterQuery,
+  AuthorListQuery,
+  AuthorResponseDto,
+  AuthorSearchQuery,
+  AuthorSearchResponseDto,
+  ListResponseDto,
+} from "./dto"
 
 /**
  * Controller for handling author-related requests
@@ -29,34 +44,84 @@ export class AuthorController {
   ) {}
 
   /**
-   * Lists all authors that we have quotes for (at least 1 quote)
+   * Lists authors that we have quotes for (at least 1 quote), page by page
    *
-   * @returns List of authors
+   * @param query Filter of authors by their metadata, selection of the page, sorting and fields of authors
+   * @param request HTTP request (for composing the link to the next page)
+   * @returns Page of the list of authors
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
    */
   @Get("/")
-  public async getAllAuthors(): Promise<AuthorResponseDto[]> {
-    const authors = await this.authorService.fetchAll()
-
-    return plainToInstance(AuthorResponseDto, authors, {
-      excludeExtraneousValues: true,
+  public async getAllAuthors(
+    @QueryParams() query: AuthorListQuery,
+    @Req() request: Request,
+  ): Promise<ListResponseDto<AuthorResponseDto>> {
+    const page = await this.authorService.fetchPage(query, {
+      limit: query.limit,
+      cursor: query.cursor,
+      sort: query.sort,
+      order: query.order,
     })
+
+    return ListResponseDto.create(
+      plainToInstance(AuthorResponseDto, page.items, {
+        excludeExtraneousValues: true,
+      }),
+      page.total,
+      page.nextCursor,
+      request.originalUrl,
+      query.fields,
+    )
+  }
+
+  /**
+   * Searches authors that we have quotes for by their names (for autocomplete)
+   *
+   * @param query Search query, language and maximum number of found authors
+   * @returns List of found authors from the most relevant
+   */
+  @Get("/search")
+  public async searchAuthors(
+    @QueryParams() query: AuthorSearchQuery,
+  ): Promise<AuthorSearchResponseDto[]> {
+    const language =
+      query.lang === undefined
+        ? null
+        : await this.languageService.fetchByAbbreviation(query.lang)
+
+    const results = await this.authorService.search(
+      query.q,
+      language,
+      query.limit,
+    )
+
+    return results.map((result) =>
+      Object.assign(
+        plainToInstance(AuthorSearchResponseDto, result.author, {
+          excludeExtraneousValues: true,
+        }),
+        { rank: result.rank },
+      ),
+    )
   }
 
   /**
    * Lists all authors that we have quotes for (at least 1 quote) in the selected language
    *
    * @param params Selected language
+   * @param query Filter of authors by their metadata
    * @returns List of authors
    */
   @Get("/:langAbbr")
   public async getAuthorsByLanguage(
     @Params() params: LangParams,
+    @QueryParams() query: AuthorFilterQuery,
   ): Promise<AuthorResponseDto[]> {
     const language = await this.languageService.fetchByAbbreviation(
       params.langAbbr,
     )
 
-    const authors = await this.authorService.fetchAllByLanguage(language)
+    const authors = await this.authorService.fetchAllByLanguage(language, query)
 
     return plainToInstance(AuthorResponseDto, authors, {
       excludeExtraneousValues: true,
@@ -4,4 +4,5 @@
  */
 
 export * from "./params"
+export * from "./query"
 export * from "./response"
@@ -4,4 +4,5 @@
  */
 
 export { LangAndAuthorParams } from "./langAndAuthorParams.dto"
+export { LangAndQuoteParams } from "./langAndQuoteParams.dto"
 export { LangParams } from "./langParams.dto"
@@ -0,0 +1,25 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { IsAlpha, IsInt, IsLowercase, Length, Min } from "class-validator"
+import { Type } from "class-transformer"
+
+/**
+ * DTO for validating language and quote parameters
+ *
+ * @property langAbbr Language abbreviation (2 lowercase letters)
+ * @property quoteId Quote ID (integer)
+ */
+export class LangAndQuoteParams {
+  @Length(2, 2)
+  @IsAlpha()
+  @IsLowercase()
+  langAbbr!: string
+
+  @Min(1)
+  @IsInt()
+  @Type(() => Number)
+  quoteId!: number
+}
@@ -0,0 +1,47 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { IsInt, IsOptional, Length } from "class-validator"
+import { Type } from "class-transformer"
+
+/**
+ * DTO for validating query parameters for filtering authors
+ *
+ * @property nationality Country of citizenship in English (e.g., "Germany", case-insensitive)
+ * @property occupation Occupation in English (e.g., "physicist", case-insensitive)
+ * @property bornFrom Minimal year of birth (negative for years BC)
+ * @property bornTo Maximal year of birth (negative for years BC)
+ * @property diedFrom Minimal year of death (negative for years BC)
+ * @property diedTo Maximal year of death (negative for years BC)
+ */
+export class AuthorFilterQuery {
+  @IsOptional()
+  @Length(1, 75)
+  nationality?: string
+
+  @IsOptional()
+  @Length(1, 75)
+  occupation?: string
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  bornFrom?: number
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  bornTo?: number
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  diedFrom?: number
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  diedTo?: number
+}
@@ -0,0 +1,71 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  IsBase64,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Length,
+  Max,
+  Min,
+} from "class-validator"
+import { Transform, Type } from "class-transformer"
+
+import { AuthorSort, SortOrder } from "../../../../services"
+
+import { AuthorFilterQuery } from "./authorFilterQuery.dto"
+
+/**
+ * DTO for validating query parameters for listing (and filtering) authors
+ *
+ * @property limit Maximum number of authors on the page (from 1 to 100, 25 by default)
+ * @property cursor Cursor of the page (from the next link of the previous page)
+ * @property sort Sort key of authors (id or English full name, id by default)
+ * @property order Order of authors (asc or desc, asc by default)
+ * @property fields Comma-separated names of fields of authors in the response (all fields by default)
+ */
+export class AuthorListQuery extends AuthorFilterQuery {
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @IsInt()
+  @Type(() => Number)
+  limit = 25
+
+  @IsOptional()
+  @Length(1, 255)
+  @IsBase64({ urlSafe: true })
+  cursor?: string
+
+  @IsOptional()
+  @IsIn(["id", "name"])
+  sort: AuthorSort = "id"
+
+  @IsOptional()
+  @IsIn(["asc", "desc"])
+  order: SortOrder = "asc"
+
+  @IsOptional()
+  @IsIn(
+    [
+      "id",
+      "englishFullName",
+      "wikidataId",
+      "birthYear",
+      "deathYear",
+      "nationality",
+      "occupation",
+      "description",
+      "imageFileName",
+      "translatedFullNames",
+    ],
+    { each: true },
+  )
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string" ? value.split(",") : value,
+  )
+  fields?: string[]
+}
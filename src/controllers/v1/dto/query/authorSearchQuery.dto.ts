@@ -0,0 +1,40 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  IsAlpha,
+  IsInt,
+  IsLowercase,
+  IsOptional,
+  Length,
+  Max,
+  Min,
+} from "class-validator"
+import { Type } from "class-transformer"
+
+/**
+ * DTO for validating query parameters for searching authors
+ *
+ * @property q Search query (a part of the author's name, diacritics are ignored)
+ * @property lang Language abbreviation (2 lowercase letters) of searched translated names and quotes of the authors (all languages by default)
+ * @property limit Maximum number of found authors (from 1 to 50, 10 by default)
+ */
+export class AuthorSearchQuery {
+  @Length(1, 75)
+  q!: string
+
+  @IsOptional()
+  @Length(2, 2)
+  @IsAlpha()
+  @IsLowercase()
+  lang?: string
+
+  @IsOptional()
+  @Min(1)
+  @Max(50)
+  @IsInt()
+  @Type(() => Number)
+  limit = 10
+}
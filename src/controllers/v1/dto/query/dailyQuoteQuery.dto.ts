@@ -0,0 +1,23 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { IsISO8601, IsOptional, IsTimeZone, Length } from "class-validator"
+
+/**
+ * DTO for validating query parameters for the quote of the day
+ *
+ * @property date The day in YYYY-MM-DD format (today by default)
+ * @property timezone Time zone of the day (IANA name, e.g., "Europe/Prague", the server's one by default)
+ */
+export class DailyQuoteQuery {
+  @IsOptional()
+  @Length(10, 10)
+  @IsISO8601({ strict: true })
+  date?: string
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string
+}
@@ -0,0 +1,11 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+export { AuthorFilterQuery } from "./authorFilterQuery.dto"
+export { AuthorListQuery } from "./authorListQuery.dto"
+export { AuthorSearchQuery } from "./authorSearchQuery.dto"
+export { DailyQuoteQuery } from "./dailyQuoteQuery.dto"
+export { QuoteListQuery } from "./quoteListQuery.dto"
+export { QuoteSearchQuery } from "./quoteSearchQuery.dto"
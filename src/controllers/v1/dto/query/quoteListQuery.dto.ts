@@ -0,0 +1,57 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  IsBase64,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Length,
+  Max,
+  Min,
+} from "class-validator"
+import { Transform, Type } from "class-transformer"
+
+import { QuoteSort, SortOrder } from "../../../../services"
+
+/**
+ * DTO for validating query parameters for listing quotes
+ *
+ * @property limit Maximum number of quotes on the page (from 1 to 100, 25 by default)
+ * @property cursor Cursor of the page (from the next link of the previous page)
+ * @property sort Sort key of quotes (id, score or author name, id by default)
+ * @property order Order of quotes (asc or desc, desc for score and asc for the others by default)
+ * @property fields Comma-separated names of fields of quotes in the response (all fields by default)
+ */
+export class QuoteListQuery {
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @IsInt()
+  @Type(() => Number)
+  limit = 25
+
+  @IsOptional()
+  @Length(1, 255)
+  @IsBase64({ urlSafe: true })
+  cursor?: string
+
+  @IsOptional()
+  @IsIn(["id", "score", "author"])
+  sort: QuoteSort = "id"
+
+  @IsOptional()
+  @IsIn(["asc", "desc"])
+  order?: SortOrder
+
+  @IsOptional()
+  @IsIn(["id", "source", "revisionUrl", "alternateSources", "text", "author"], {
+    each: true,
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string" ? value.split(",") : value,
+  )
+  fields?: string[]
+}
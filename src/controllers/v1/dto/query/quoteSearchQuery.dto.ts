@@ -0,0 +1,25 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { IsInt, IsOptional, Length, Max, Min } from "class-validator"
+import { Type } from "class-transformer"
+
+/**
+ * DTO for validating query parameters for searching quotes
+ *
+ * @property q Search query (web search syntax: "quoted phrases", OR, -excluded words)
+ * @property limit Maximum number of found quotes (from 1 to 100, 25 by default)
+ */
+export class QuoteSearchQuery {
+  @Length(1, 255)
+  q!: string
+
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @IsInt()
+  @Type(() => Number)
+  limit = 25
+}
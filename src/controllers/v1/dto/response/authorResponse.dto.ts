@@ -24,6 +24,13 @@ export class TranslatedFullNameDto {
  *
  * @property id Database identifier of the author (used for selecting author in some endpoints)
  * @property englishFullName Full name of the author in English
+ * @property wikidataId Identifier of the author's Wikidata item (null if unknown)
+ * @property birthYear Year of birth (negative for years BC, null if unknown)
+ * @property deathYear Year of death (negative for years BC, null for living authors or if unknown)
+ * @property nationality Country of citizenship in English (null if unknown)
+ * @property occupation The main occupation in English (null if unknown)
+ * @property description Short description in English (null if unknown)
+ * @property imageFileName Name of the author's image file on Wikimedia Commons (null if unknown)
  * @property translatedFullNames List of translated full names of the author
  */
 export class AuthorResponseDto {
@@ -33,6 +40,27 @@ export class AuthorResponseDto {
   @Expose()
   englishFullName!: string
 
+  @Expose()
+  wikidataId!: string | null
+
+  @Expose()
+  birthYear!: number | null
+
+  @Expose()
+  deathYear!: number | null
+
+  @Expose()
+  nationality!: string | null
+
+  @Expose()
+  occupation!: string | null
+
+  @Expose()
+  description!: string | null
+
+  @Expose()
+  imageFileName!: string | null
+
   @Expose()
   @Type(() => TranslatedFullNameDto)
   translatedFullNames!: TranslatedFullNameDto[]
@@ -0,0 +1,18 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Expose } from "class-transformer"
+
+import { AuthorResponseDto } from "./authorResponse.dto"
+
+/**
+ * Response DTO for author found by searching names
+ *
+ * @property rank Similarity of the author's best matching name with the search query (from 0 to 1, higher is better)
+ */
+export class AuthorSearchResponseDto extends AuthorResponseDto {
+  @Expose()
+  rank!: number
+}
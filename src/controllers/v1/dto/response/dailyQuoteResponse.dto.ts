@@ -0,0 +1,18 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Expose } from "class-transformer"
+
+import { QuoteResponseDto } from "./quoteResponse.dto"
+
+/**
+ * Response DTO for quote of the day
+ *
+ * @property date The day the quote was selected for (in YYYY-MM-DD format)
+ */
+export class DailyQuoteResponseDto extends QuoteResponseDto {
+  @Expose()
+  date!: string
+}
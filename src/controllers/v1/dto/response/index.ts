@@ -4,5 +4,10 @@
  */
 
 export { AuthorResponseDto } from "./authorResponse.dto"
+export { AuthorSearchResponseDto } from "./authorSearchResponse.dto"
+export { DailyQuoteResponseDto } from "./dailyQuoteResponse.dto"
 export { LanguageResponseDto } from "./languageResponse.dto"
+export { ListResponseDto } from "./listResponse.dto"
 export { QuoteResponseDto } from "./quoteResponse.dto"
+export { QuoteSearchResponseDto } from "./quoteSearchResponse.dto"
+export { QuoteTranslationResponseDto } from "./quoteTranslationResponse.dto"
@@ -0,0 +1,68 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Expose } from "class-transformer"
+
+/**
+ * Response DTO for a page of a list
+ *
+ * @property total Total number of items in the list (on all pages)
+ * @property next Link to the next page (null for the last page)
+ * @property items Items on the page (with selected fields only, if there are some)
+ */
+export class ListResponseDto<T extends object> {
+  @Expose()
+  total!: number
+
+  @Expose()
+  next!: string | null
+
+  @Expose()
+  items!: Partial<T>[]
+
+  /**
+   * Creates the response for a page of a list
+   *
+   * @param items Items on the page (response DTOs)
+   * @param total Total number of items in the list (on all pages)
+   * @param nextCursor Cursor of the next page (null for the last page)
+   * @param url URL of the requested page (the next link only differs in the cursor)
+   * @param fields Selected fields of items (undefined for all fields)
+   * @returns Response for the page
+   */
+  public static create<T extends object>(
+    items: T[],
+    total: number,
+    nextCursor: string | null,
+    url: string,
+    fields?: string[],
+  ): ListResponseDto<T> {
+    let next: string | null = null
+    if (nextCursor !== null) {
+      // Only the path and query are used, as the host could be hidden by a proxy
+      const nextUrl = new URL(url, "http://localhost")
+      nextUrl.searchParams.set("cursor", nextCursor)
+      next = `${nextUrl.pathname}${nextUrl.search}`
+    }
+
+    const response = new ListResponseDto<T>()
+    response.total = total
+    response.next = next
+    response.items =
+      fields === undefined
+        ? items
+        : items.map(
+            (item) =>
+              Object.fromEntries(
+                fields.map((field) => [
+                  field,
+                  (item as Record<string, unknown>)[field],
+                ]),
+              ) as Partial<T>,
+          )
+
+    return response
+  }
+}
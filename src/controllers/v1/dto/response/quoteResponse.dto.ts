@@ -3,7 +3,9 @@
  * @date 25th April 2025
  */
 
-import { Expose, Type } from "class-transformer"
+import { Expose, Transform, Type } from "class-transformer"
+
+import { Quote } from "../../../../entities"
 
 import { AuthorResponseDto } from "./authorResponse.dto"
 
@@ -12,6 +14,8 @@ import { AuthorResponseDto } from "./authorResponse.dto"
  *
  * @property id Database identifier of the quote (used for farther identification in case of problems and other references)
  * @property source URL of the Wiki quote page, where the quote is from
+ * @property revisionUrl Permanent URL of the page revision the quote was loaded from (null for quotes loaded before revisions were tracked)
+ * @property alternateSources URLs of other Wiki quote pages, where the same quote (or its near duplicate) was found
  * @property text Quote's text
  * @property author Author of the quote
  */
@@ -22,6 +26,19 @@ export class QuoteResponseDto {
   @Expose()
   source!: string
 
+  @Expose()
+  @Transform(
+    ({ obj }: { obj: Quote }) =>
+      obj.page
+        ? `${new URL(obj.source).origin}/w/index.php?oldid=${String(obj.page.revisionId)}`
+        : null,
+    { toClassOnly: true },
+  )
+  revisionUrl!: string | null
+
+  @Expose()
+  alternateSources!: string[]
+
   @Expose()
   text!: string
 
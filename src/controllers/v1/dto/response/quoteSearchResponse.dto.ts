@@ -0,0 +1,22 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Expose } from "class-transformer"
+
+import { QuoteResponseDto } from "./quoteResponse.dto"
+
+/**
+ * Response DTO for quote found by full-text search
+ *
+ * @property rank Relevance of the quote for the search query (higher is better)
+ * @property snippet Text of the quote with matched words wrapped in <mark> tags (shortened to the most relevant parts, not HTML-escaped)
+ */
+export class QuoteSearchResponseDto extends QuoteResponseDto {
+  @Expose()
+  rank!: number
+
+  @Expose()
+  snippet!: string
+}
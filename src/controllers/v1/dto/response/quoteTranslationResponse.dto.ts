@@ -0,0 +1,23 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Expose, Transform } from "class-transformer"
+
+import { Quote } from "../../../../entities"
+
+import { QuoteResponseDto } from "./quoteResponse.dto"
+
+/**
+ * Response DTO for translation of a quote into another language
+ *
+ * @property languageAbbreviation Abbreviation of the language of the translation
+ */
+export class QuoteTranslationResponseDto extends QuoteResponseDto {
+  @Expose()
+  @Transform(({ obj }: { obj: Quote }) => obj.language.abbreviation, {
+    toClassOnly: true,
+  })
+  languageAbbreviation!: string
+}
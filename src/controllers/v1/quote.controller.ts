@@ -3,13 +3,38 @@
  * @date 25th April 2025
  */
 
-import { Get, JsonController, Params } from "routing-controllers"
+import { Request, Response } from "express"
+import {
+  Get,
+  JsonController,
+  Params,
+  QueryParams,
+  Req,
+  Res,
+} from "routing-controllers"
 import { Service } from "typedi"
 import { plainToInstance } from "class-transformer"
 
-import { AuthorService, LanguageService, QuoteService } from "../../services"
+import {
+  AuthorService,
+  DailyQuoteService,
+  LanguageService,
+  QuoteService,
+} from "../../services"
 
-import { LangParams, LangAndAuthorParams, QuoteResponseDto } from "./dto"
+import {
+  DailyQuoteQuery,
+  DailyQuoteResponseDto,
+  LangParams,
+  LangAndAuthorParams,
+  LangAndQuoteParams,
+  ListResponseDto,
+  QuoteListQuery,
+  QuoteResponseDto,
+  QuoteSearchQuery,
+  QuoteSearchResponseDto,
+  QuoteTranslationResponseDto,
+} from "./dto"
 
 /**
  * Controller for handling quote-related requests
@@ -23,32 +48,51 @@ export class QuoteController {
    * @param quoteService Service for handling quote-related operations (dependency)
    * @param languageService Service for handling language-related operations (dependency)
    * @param authorService Service for handling author-related operations (dependency)
+   * @param dailyQuoteService Service for selecting quotes of the day (dependency)
    */
   public constructor(
     private readonly quoteService: QuoteService,
     private readonly languageService: LanguageService,
     private readonly authorService: AuthorService,
+    private readonly dailyQuoteService: DailyQuoteService,
   ) {}
 
   /**
-   * Lists all quotes in the selected language
+   * Lists quotes in the selected language (page by page)
    *
    * @param params Selected language
-   * @returns List of quotes
+   * @param query Selection of the page, sorting and fields of quotes
+   * @param request HTTP request (for composing the link to the next page)
+   * @returns Page of the list of quotes
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
    */
   @Get("/:langAbbr")
   public async getAllQuotes(
     @Params() params: LangParams,
-  ): Promise<QuoteResponseDto[]> {
+    @QueryParams() query: QuoteListQuery,
+    @Req() request: Request,
+  ): Promise<ListResponseDto<QuoteResponseDto>> {
     const language = await this.languageService.fetchByAbbreviation(
       params.langAbbr,
     )
 
-    const quotes = await this.quoteService.fetchAllByLanguage(language)
-
-    return plainToInstance(QuoteResponseDto, quotes, {
-      excludeExtraneousValues: true,
+    // The best quotes are usually wanted first
+    const page = await this.quoteService.fetchPageByLanguage(language, {
+      limit: query.limit,
+      cursor: query.cursor,
+      sort: query.sort,
+      order: query.order ?? (query.sort === "score" ? "desc" : "asc"),
     })
+
+    return ListResponseDto.create(
+      plainToInstance(QuoteResponseDto, page.items, {
+        excludeExtraneousValues: true,
+      }),
+      page.total,
+      page.nextCursor,
+      request.originalUrl,
+      query.fields,
+    )
   }
 
   /**
@@ -72,6 +116,84 @@ export class QuoteController {
     })
   }
 
+  /**
+   * Returns the quote of the day in the selected language
+   *
+   * The response can be cached until the end of the day (quotes of past days
+   * never change).
+   *
+   * @param params Selected language
+   * @param query Selected day and its time zone
+   * @param response HTTP response (for setting caching headers)
+   * @returns Quote of the day
+   * @throws NotFoundError If the day is in the future, no quote was selected for the past day, or there are no quotes in the language
+   */
+  @Get("/:langAbbr/daily")
+  public async dailyQuote(
+    @Params() params: LangParams,
+    @QueryParams() query: DailyQuoteQuery,
+    @Res() response: Response,
+  ): Promise<DailyQuoteResponseDto> {
+    const language = await this.languageService.fetchByAbbreviation(
+      params.langAbbr,
+    )
+
+    const quoteOfDay = await this.dailyQuoteService.fetchQuoteOfDay(
+      language,
+      query.date,
+      query.timezone,
+    )
+
+    const maxAge = Math.ceil(
+      (quoteOfDay.expiresAt.getTime() - Date.now()) / 1000,
+    )
+    if (maxAge > 0) {
+      response.set("Cache-Control", `public, max-age=${String(maxAge)}`)
+      response.set("Expires", quoteOfDay.expiresAt.toUTCString())
+    } else {
+      response.set("Cache-Control", "public, max-age=31536000, immutable")
+    }
+
+    return Object.assign(
+      plainToInstance(DailyQuoteResponseDto, quoteOfDay.quote, {
+        excludeExtraneousValues: true,
+      }),
+      { date: quoteOfDay.date },
+    )
+  }
+
+  /**
+   * Searches quotes in the selected language by their texts
+   *
+   * @param params Selected language
+   * @param query Search query and maximum number of found quotes
+   * @returns List of found quotes from the most relevant
+   */
+  @Get("/:langAbbr/search")
+  public async searchQuotes(
+    @Params() params: LangParams,
+    @QueryParams() query: QuoteSearchQuery,
+  ): Promise<QuoteSearchResponseDto[]> {
+    const language = await this.languageService.fetchByAbbreviation(
+      params.langAbbr,
+    )
+
+    const results = await this.quoteService.search(
+      language,
+      query.q,
+      query.limit,
+    )
+
+    return results.map((result) =>
+      Object.assign(
+        plainToInstance(QuoteSearchResponseDto, result.quote, {
+          excludeExtraneousValues: true,
+        }),
+        { rank: result.rank, snippet: result.snippet },
+      ),
+    )
+  }
+
   /**
    * Lists all quotes in the selected language authored by the selected author
    *
@@ -97,6 +219,28 @@ export class QuoteController {
     })
   }
 
+  /**
+   * Lists translations of the selected quote into other languages
+   *
+   * @param params Selected language and quote
+   * @returns List of translations (empty if the quote has no known translations)
+   */
+  @Get("/:langAbbr/:quoteId/translations")
+  public async getQuoteTranslations(
+    @Params() params: LangAndQuoteParams,
+  ): Promise<QuoteTranslationResponseDto[]> {
+    const language = await this.languageService.fetchByAbbreviation(
+      params.langAbbr,
+    )
+    const quote = await this.quoteService.fetchById(language, params.quoteId)
+
+    const translations = await this.quoteService.fetchTranslations(quote)
+
+    return plainToInstance(QuoteTranslationResponseDto, translations, {
+      excludeExtraneousValues: true,
+    })
+  }
+
   /**
    * Return a random quote in the selected language authored by the selected author
    *
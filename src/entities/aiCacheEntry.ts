@@ -0,0 +1,76 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryColumn,
+} from "typeorm"
+
+/**
+ * Model representing a cached response of a language model
+ *
+ * Responses are cached for identical inputs, so unchanged texts don't need
+ * to be sent to the language model again. Prompt version is a part of the key,
+ * so changing the prompt (and its version) invalidates old responses.
+ *
+ * @property modelName API name of the language model that generated the response
+ * @property promptName Name of the prompt (e.g., "quote" for quote scoring)
+ * @property promptVersion Version of the prompt
+ * @property inputHash Hash of the input text sent to the language model
+ * @property response Response of the language model (serialized as JSON)
+ * @property createdAt Time of the cache entry creation
+ */
+@Entity()
+export class AiCacheEntry extends BaseEntity {
+  @PrimaryColumn({ length: 75 })
+  modelName!: string
+
+  @PrimaryColumn({ length: 75 })
+  promptName!: string
+
+  @PrimaryColumn({ unsigned: true })
+  promptVersion!: number
+
+  @PrimaryColumn({
+    type: "char",
+    length: 32,
+    comment: "XXH128 hash of the input",
+  })
+  inputHash!: string
+
+  @Column({ type: "text" })
+  response!: string
+
+  @CreateDateColumn()
+  createdAt!: Date
+
+  /**
+   * Constructor for the AiCacheEntry class
+   *
+   * @param modelName API name of the language model that generated the response
+   * @param promptName Name of the prompt (e.g., "quote" for quote scoring)
+   * @param promptVersion Version of the prompt
+   * @param inputHash Hash of the input text sent to the language model
+   * @param response Response of the language model (serialized as JSON)
+   */
+  public constructor(
+    modelName: string,
+    promptName: string,
+    promptVersion: number,
+    inputHash: string,
+    response: string,
+  ) {
+    super()
+
+    this.modelName = modelName
+    this.promptName = promptName
+    this.promptVersion = promptVersion
+    this.inputHash = inputHash
+    this.response = response
+  }
+}
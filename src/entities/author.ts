@@ -7,6 +7,7 @@ import {
   BaseEntity,
   Column,
   Entity,
+  Index,
   OneToMany,
   PrimaryGeneratedColumn,
 } from "typeorm"
@@ -17,18 +18,64 @@ import { TranslatedAuthorName } from "./translatedAuthorName"
 /**
  * Model representing an author of quotes
  *
+ * Authors are identified by their Wikidata items, which are shared by pages
+ * about the same person in all languages. Authors of pages without a Wikidata
+ * item are identified by their English full names (normalized by a language
+ * model) instead.
+ *
  * @property englishFullName Full name of the author in English
+ * @property wikidataId Identifier of the author's Wikidata item (e.g., "Q937"), missing for authors identified by their names
+ * @property birthYear Year of birth (negative for years BC), missing if unknown
+ * @property deathYear Year of death (negative for years BC), missing for living authors or if unknown
+ * @property nationality Country of citizenship in English (e.g., "Germany"), missing if unknown
+ * @property occupation The main occupation in English (e.g., "physicist"), missing if unknown
+ * @property description Short description in English, missing if unknown
+ * @property imageFileName Name of the author's image file on Wikimedia Commons, missing if unknown
+ * @property metadataUpdatedAt Time of the last update of metadata from Wikidata (missing if they were never updated)
  * @property translatedFullNames Names of the author in different languages
  * @property quotes Quotes associated with the author
  */
 @Entity()
+@Index(["englishFullName"], {
+  unique: true,
+  where: '"wikidataId" IS NULL',
+})
 export class Author extends BaseEntity {
   @PrimaryGeneratedColumn({ unsigned: true })
   id!: number
 
-  @Column({ length: 75, unique: true })
+  @Column({ length: 75 })
   englishFullName!: string
 
+  @Column({ type: "varchar", length: 16, nullable: true, unique: true })
+  wikidataId!: string | null
+
+  @Column({ type: "smallint", nullable: true })
+  birthYear!: number | null
+
+  @Column({ type: "smallint", nullable: true })
+  deathYear!: number | null
+
+  @Column({ type: "varchar", length: 75, nullable: true })
+  nationality!: string | null
+
+  @Column({ type: "varchar", length: 75, nullable: true })
+  occupation!: string | null
+
+  @Column({ type: "varchar", length: 255, nullable: true })
+  description!: string | null
+
+  @Column({
+    type: "varchar",
+    length: 255,
+    nullable: true,
+    comment: "File name on Wikimedia Commons",
+  })
+  imageFileName!: string | null
+
+  @Column({ type: "timestamptz", nullable: true })
+  metadataUpdatedAt!: Date | null
+
   @OneToMany(
     () => TranslatedAuthorName,
     (translatedAuthorName) => translatedAuthorName.author,
@@ -42,10 +89,19 @@ export class Author extends BaseEntity {
    * Constructor for the Author class
    *
    * @param englishFullName Full name of the author in English
+   * @param wikidataId Identifier of the author's Wikidata item (null for authors identified by their names)
    */
-  public constructor(englishFullName: string) {
+  public constructor(englishFullName: string, wikidataId: string | null) {
     super()
 
     this.englishFullName = englishFullName
+    this.wikidataId = wikidataId
+    this.birthYear = null
+    this.deathYear = null
+    this.nationality = null
+    this.occupation = null
+    this.description = null
+    this.imageFileName = null
+    this.metadataUpdatedAt = null
   }
 }
@@ -0,0 +1,51 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { BaseEntity, Entity, ManyToOne, PrimaryColumn } from "typeorm"
+
+import { Language } from "./language"
+import { Quote } from "./quote"
+
+/**
+ * Model representing a quote of the day selected for a language
+ *
+ * Selected quotes are stored, so the quote of the day doesn't change during
+ * the day (e.g., after loading new quotes), and recently selected quotes
+ * could be avoided.
+ *
+ * @property language Language the quote was selected for
+ * @property quote The selected quote (the quote of the day is selected again if it's deleted)
+ * @property languageAbbreviation Foreign key referencing the language
+ * @property date The day (in YYYY-MM-DD format)
+ */
+@Entity()
+export class DailyQuote extends BaseEntity {
+  @ManyToOne(() => Language)
+  language!: Language
+
+  @ManyToOne(() => Quote, { onDelete: "CASCADE" })
+  quote!: Quote
+
+  @PrimaryColumn({ type: "char", length: 2 })
+  languageAbbreviation!: string
+
+  @PrimaryColumn({ type: "date" })
+  date!: string
+
+  /**
+   * Constructor for the DailyQuote class
+   *
+   * @param language Language the quote was selected for
+   * @param date The day (in YYYY-MM-DD format)
+   * @param quote The selected quote
+   */
+  public constructor(language: Language, date: string, quote: Quote) {
+    super()
+
+    this.language = language
+    this.date = date
+    this.quote = quote
+  }
+}
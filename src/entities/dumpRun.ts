@@ -0,0 +1,104 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  BaseEntity,
+  Column,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm"
+
+import { Language } from "./language"
+
+/**
+ * Final state of the dump run
+ *
+ * - completed—all pages of the dump were processed
+ * - failed—processing stopped due to an error (it could be resumed from the checkpoint)
+ * - budgetExceeded—processing stopped before exceeding the budget (it could be resumed from the checkpoint)
+ */
+export type DumpRunStatus = "completed" | "failed" | "budgetExceeded"
+
+/**
+ * Model representing a single run of loading quotes from a wiki dump
+ *
+ * It keeps accounting of language model usage, so costs of dataset builds
+ * could be tracked over time.
+ *
+ * @property id Identifier of the run
+ * @property dumpName Name of the processed dump
+ * @property language Language of the dump
+ * @property startedAt Time the run started
+ * @property finishedAt Time the run finished
+ * @property status Final state of the run
+ * @property budget Budget of the run in USD (null for unlimited)
+ * @property requests Number of language model requests
+ * @property inputTokens Number of input tokens sent to language models
+ * @property outputTokens Number of output tokens generated by language models
+ * @property cost Cost of language model requests in USD
+ * @property usageByParser Usage of language models by parsers (prompt names)
+ */
+@Entity()
+export class DumpRun extends BaseEntity {
+  @PrimaryGeneratedColumn({ unsigned: true })
+  id!: number
+
+  @Column({ length: 255 })
+  dumpName!: string
+
+  @ManyToOne(() => Language)
+  language!: Language
+
+  @Column({ type: "timestamptz" })
+  startedAt!: Date
+
+  @Column({ type: "timestamptz" })
+  finishedAt!: Date
+
+  @Column({ length: 20 })
+  status!: DumpRunStatus
+
+  @Column({ type: "double precision", nullable: true, comment: "USD" })
+  budget!: number | null
+
+  @Column({ unsigned: true })
+  requests!: number
+
+  @Column({ unsigned: true })
+  inputTokens!: number
+
+  @Column({ unsigned: true })
+  outputTokens!: number
+
+  @Column({ type: "double precision", comment: "USD" })
+  cost!: number
+
+  @Column({ type: "jsonb" })
+  usageByParser!: Record<
+    string,
+    {
+      requests: number
+      inputTokens: number
+      outputTokens: number
+      cost: number
+    }
+  >
+
+  /**
+   * Constructor for the DumpRun class
+   *
+   * @param dumpName Name of the processed dump
+   * @param language Language of the dump
+   * @param startedAt Time the run started
+   */
+  public constructor(dumpName: string, language: Language, startedAt: Date) {
+    super()
+
+    this.dumpName = dumpName
+    this.language = language
+    this.startedAt = startedAt
+  }
+}
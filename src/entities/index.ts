@@ -3,7 +3,12 @@
  * @date 25th April 2025
  */
 
+export { AiCacheEntry } from "./aiCacheEntry"
 export { Author } from "./author"
+export { DailyQuote } from "./dailyQuote"
+export { DumpRun, DumpRunStatus } from "./dumpRun"
 export { Language } from "./language"
+export { Page } from "./page"
 export { Quote } from "./quote"
+export { QuoteTranslation } from "./quoteTranslation"
 export { TranslatedAuthorName } from "./translatedAuthorName"
@@ -6,6 +6,7 @@
 import { BaseEntity, Column, Entity, OneToMany, PrimaryColumn } from "typeorm"
 import { IsAlpha, Length } from "class-validator"
 
+import { Page } from "./page"
 import { Quote } from "./quote"
 import { TranslatedAuthorName } from "./translatedAuthorName"
 
@@ -15,8 +16,10 @@ import { TranslatedAuthorName } from "./translatedAuthorName"
  * @property abbreviation Abbreviation of the language (e.g., "cs" for Czech)
  * @property englishName Full name of the language in English (e.g., "Czech")
  * @property nativeName Full name of the language in its native form (e.g., "Čeština")
+ * @property textSearchConfig Name of the PostgreSQL text search configuration for searching quotes (e.g., "english", "simple" for languages without a built-in one)
  * @property quotes Quotes associated with the language
  * @property translatedFullNames Names of authors in different languages
+ * @property pages Wiki quote pages in the language the quotes were loaded from
  */
 @Entity()
 export class Language extends BaseEntity {
@@ -31,6 +34,13 @@ export class Language extends BaseEntity {
   @Column({ length: 75 })
   nativeName!: string
 
+  @Column({
+    length: 63,
+    default: "simple",
+    comment: "PostgreSQL text search configuration for searching quotes",
+  })
+  textSearchConfig!: string
+
   @OneToMany(() => Quote, (quote) => quote.language)
   quotes?: Quote[]
 
@@ -40,22 +50,28 @@ export class Language extends BaseEntity {
   )
   translatedFullNames?: TranslatedAuthorName[]
 
+  @OneToMany(() => Page, (page) => page.language)
+  pages?: Page[]
+
   /**
    * Constructor for the Language class
    *
    * @param abbreviation Abbreviation of the language (e.g., "cs" for Czech)
    * @param englishName Full name of the language in English (e.g., "Czech")
    * @param nativeName Full name of the language in its native form (e.g., "Čeština")
+   * @param textSearchConfig Name of the PostgreSQL text search configuration for searching quotes
    */
   public constructor(
     abbreviation: string,
     englishName: string,
     nativeName: string,
+    textSearchConfig = "simple",
   ) {
     super()
 
     this.abbreviation = abbreviation
     this.englishName = englishName
     this.nativeName = nativeName
+    this.textSearchConfig = textSearchConfig
   }
 }
@@ -0,0 +1,93 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  BaseEntity,
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from "typeorm"
+
+import { Language } from "./language"
+import { Quote } from "./quote"
+
+/**
+ * Model representing a Wiki quote page the quotes were loaded from
+ *
+ * It's used for incremental updates, so only pages changed since the last
+ * processed dump are parsed again. It also keeps provenance of the quotes
+ * (which revision of the page and which dump they were loaded from).
+ *
+ * @property pageId Identifier of the page in the Wiki quote instance of the language
+ * @property title Title of the page
+ * @property revisionId Identifier of the processed revision of the page
+ * @property revisionTimestamp Time of the processed revision creation (missing for pages loaded before it was tracked)
+ * @property contentHash Hash of the processed page content
+ * @property dumpName Name of the dump the processed revision was loaded from (missing for pages loaded before it was tracked)
+ * @property lastSeenDump Name of the last processed dump containing the page
+ * @property inputTokens Number of input tokens sent to language models while processing the revision
+ * @property outputTokens Number of output tokens generated by language models while processing the revision
+ * @property cost Cost of language model requests made while processing the revision (in USD)
+ * @property language Language of the page (and its Wiki quote instance)
+ * @property quotes Quotes loaded from the page
+ */
+@Entity()
+@Index(["language", "pageId"], { unique: true })
+export class Page extends BaseEntity {
+  @PrimaryGeneratedColumn({ unsigned: true })
+  id!: number
+
+  @Column({ unsigned: true })
+  pageId!: number
+
+  @Column({ length: 255 })
+  title!: string
+
+  @Column({ unsigned: true })
+  revisionId!: number
+
+  @Column({ type: "timestamptz", nullable: true })
+  revisionTimestamp!: Date | null
+
+  @Column({ length: 32, comment: "XXH3 hash of the page content" })
+  contentHash!: string
+
+  @Column({ type: "varchar", length: 255, nullable: true })
+  dumpName!: string | null
+
+  @Column({ length: 255 })
+  lastSeenDump!: string
+
+  @Column({ unsigned: true, default: 0 })
+  inputTokens!: number
+
+  @Column({ unsigned: true, default: 0 })
+  outputTokens!: number
+
+  @Column({ type: "double precision", default: 0, comment: "USD" })
+  cost!: number
+
+  @ManyToOne(() => Language, (language) => language.pages)
+  language!: Language
+
+  @OneToMany(() => Quote, (quote) => quote.page)
+  quotes?: Quote[]
+
+  /**
+   * Constructor for the Page class
+   *
+   * @param pageId Identifier of the page in the Wiki quote instance of the language
+   * @param language Language of the page (and its Wiki quote instance)
+   */
+  public constructor(pageId: number, language: Language) {
+    super()
+
+    this.pageId = pageId
+    this.language = language
+  }
+}
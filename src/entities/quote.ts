@@ -7,6 +7,7 @@ import {
   BaseEntity,
   Column,
   Entity,
+  Index,
   ManyToOne,
   PrimaryGeneratedColumn,
 } from "typeorm"
@@ -14,6 +15,8 @@ import { IsInt, IsUrl, Max, Min } from "class-validator"
 
 import { Author } from "./author"
 import { Language } from "./language"
+import { Page } from "./page"
+import { QuoteTranslation } from "./quoteTranslation"
 
 /**
  * Model representing a quote (popular text from a person)
@@ -23,6 +26,14 @@ import { Language } from "./language"
  * @property score Score given by a language model (from 0 to 100)
  * @property author The author of the quote
  * @property language The language of the quote
+ * @property page Wiki quote page the quote was loaded from (missing for quotes loaded before pages were tracked)
+ * @property translation Group of translations of the quote into other languages (missing for quotes without known translations)
+ * @property alternateSources URLs of other Wiki quote pages, where the same (or nearly the same) quote was found
+ * @property normalizedHash Hash of the normalized text for detecting exact duplicates (missing for quotes loaded before deduplication)
+ * @property minHash MinHash signature of the normalized text for detecting near duplicates (missing for quotes loaded before deduplication)
+ * @property lshBands Keys of LSH bands of the MinHash signature for finding candidates for near duplicates (missing for quotes loaded before deduplication)
+ * @property searchVector Text prepared for full-text search (missing for quotes not indexed yet, not selected by default)
+ * @property checkedTranslations Identifiers of the last quotes of the same author compared with the quote as candidates for its translation (by language abbreviations)
  */
 @Entity()
 export class Quote extends BaseEntity {
@@ -56,6 +67,72 @@ export class Quote extends BaseEntity {
   @ManyToOne(() => Language, (language) => language.quotes)
   language!: Language
 
+  @ManyToOne(() => Page, (page) => page.quotes, {
+    nullable: true,
+    onDelete: "CASCADE",
+  })
+  page?: Page | null
+
+  @ManyToOne(() => QuoteTranslation, (translation) => translation.quotes, {
+    nullable: true,
+    onDelete: "SET NULL",
+  })
+  translation?: QuoteTranslation | null
+
+  @Column({
+    type: "varchar",
+    length: 255,
+    array: true,
+    default: () => "'{}'",
+    comment: "URLs of other Wikiquote pages with the same quote",
+  })
+  alternateSources!: string[]
+
+  @Column({
+    type: "char",
+    length: 32,
+    nullable: true,
+    comment: "XXH128 hash of the normalized text",
+  })
+  @Index()
+  normalizedHash!: string | null
+
+  @Column({
+    type: "int",
+    array: true,
+    nullable: true,
+    comment: "MinHash signature of the normalized text",
+  })
+  minHash!: number[] | null
+
+  // The GIN index isn't supported by the ORM (see PageService.prepareDeduplication())
+  @Column({
+    type: "int",
+    array: true,
+    nullable: true,
+    comment: "Keys of LSH bands of the MinHash signature",
+  })
+  @Index("IDX_quote_lsh_bands", { synchronize: false })
+  lshBands!: number[] | null
+
+  // The GIN index isn't supported by the ORM (see QuoteService.indexForSearch())
+  @Column({
+    type: "tsvector",
+    nullable: true,
+    select: false,
+    comment: "Text prepared for full-text search",
+  })
+  @Index("IDX_quote_search_vector", { synchronize: false })
+  searchVector!: string | null
+
+  @Column({
+    type: "jsonb",
+    default: () => "'{}'",
+    comment:
+      "Identifiers of the last compared candidates for translations by languages",
+  })
+  checkedTranslations!: Record<string, number>
+
   /**
    * Constructor for the Quote class
    *
@@ -79,5 +156,11 @@ export class Quote extends BaseEntity {
     this.score = score
     this.author = author
     this.language = language
+    this.alternateSources = []
+    this.normalizedHash = null
+    this.minHash = null
+    this.lshBands = null
+    this.searchVector = null
+    this.checkedTranslations = {}
   }
 }
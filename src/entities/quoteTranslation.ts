@@ -0,0 +1,26 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { BaseEntity, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm"
+
+import { Quote } from "./quote"
+
+/**
+ * Model representing a group of quotes, which are translations of each other
+ *
+ * Each group contains quotes of the same author in different languages (at
+ * most one quote per language). Groups are created by linking quotes across
+ * languages (see QuoteTranslationLinker).
+ *
+ * @property quotes Quotes in the group (the same quote in different languages)
+ */
+@Entity()
+export class QuoteTranslation extends BaseEntity {
+  @PrimaryGeneratedColumn({ unsigned: true })
+  id!: number
+
+  @OneToMany(() => Quote, (quote) => quote.translation)
+  quotes?: Quote[]
+}
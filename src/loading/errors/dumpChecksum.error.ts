@@ -0,0 +1,19 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Custom error for downloaded wiki dumps, whose checksum doesn't match the published one.
+ */
+export class DumpChecksumError extends Error {
+  /**
+   * Constructor for DumpChecksumError
+   *
+   * @param message Error message (description for user of the logic producing the error)
+   */
+  public constructor(message: string) {
+    super(message)
+    this.name = "DumpChecksumError"
+  }
+}
@@ -3,4 +3,17 @@
  * @date 25th April 2025
  */
 
-export { WikiquoteLoader } from "./wikiquote.loader"
+export {
+  Checkpoint,
+  DumpEstimate,
+  DumpStatus,
+  LoadOptions,
+  WikiquoteLoader,
+} from "./wikiquote.loader"
+export { PagePropsReader } from "./pageProps.reader"
+export { QuoteFingerprinter } from "./quote.fingerprinter"
+export { QuoteTranslationLinker } from "./quoteTranslation.linker"
+export { AuthorMetadata, WikidataClient } from "./wikidata.client"
+export { AvailableWikiDump, WikiDumpFetcher } from "./wikiDump.fetcher"
+export { WikiDumpReader } from "./wikiDump.reader"
+export { DumpChecksumError } from "./errors/dumpChecksum.error"
@@ -0,0 +1,110 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Pool of workers processing items concurrently, which keeps track of their order
+ *
+ * Items are processed in any order, but the pool knows the first item (in
+ * the order of submission) that isn't finished yet. All items before it are
+ * surely processed, so it's a safe point for resuming the processing later.
+ *
+ * When any item fails, no more items are started, and the error is thrown
+ * by drain() after the running items are settled.
+ */
+export class OrderedWorkerPool<T> {
+  /**
+   * Promises of running items (they never reject)
+   */
+  private readonly running = new Map<number, Promise<void>>()
+  /**
+   * Submitted items that aren't finished yet (including the failed ones)
+   *
+   * Map keeps the insertion order, so the first entry is the oldest item.
+   */
+  private readonly unfinished = new Map<number, T>()
+  /**
+   * Index of the next submitted item
+   */
+  private nextIndex = 0
+  /**
+   * Errors of failed items
+   */
+  private readonly errors: unknown[] = []
+
+  /**
+   * Constructor for OrderedWorkerPool
+   *
+   * @param concurrency Maximum number of items processed at the same time
+   * @param process Function processing a single item
+   */
+  public constructor(
+    private readonly concurrency: number,
+    private readonly process: (item: T) => Promise<void>,
+  ) {}
+
+  /**
+   * Has any of the items failed?
+   */
+  public get hasFailed(): boolean {
+    return this.errors.length > 0
+  }
+
+  /**
+   * Starts processing of the item as soon as there is a free worker
+   *
+   * @param item Item to process
+   * @returns Promise resolved when the item is started (or skipped due to a failure)
+   */
+  public async submit(item: T): Promise<void> {
+    while (this.running.size >= this.concurrency) {
+      await Promise.race(this.running.values())
+    }
+    if (this.hasFailed) {
+      return
+    }
+
+    const index = this.nextIndex++
+    this.unfinished.set(index, item)
+    this.running.set(
+      index,
+      this.process(item).then(
+        () => {
+          this.running.delete(index)
+          this.unfinished.delete(index)
+        },
+        (error: unknown) => {
+          this.running.delete(index)
+          this.errors.push(error)
+        },
+      ),
+    )
+  }
+
+  /**
+   * Waits until all running items are finished
+   *
+   * @throws unknown Error of the first failed item
+   */
+  public async drain(): Promise<void> {
+    await Promise.all(this.running.values())
+
+    if (this.hasFailed) {
+      throw this.errors[0]
+    }
+  }
+
+  /**
+   * Returns the first (in the order of submission) item that isn't finished
+   *
+   * @returns First unfinished item or undefined if all items are finished
+   */
+  public firstUnfinished(): T | undefined {
+    for (const item of this.unfinished.values()) {
+      return item
+    }
+
+    return undefined
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { createReadStream } from "node:fs"
+import { createInterface } from "node:readline"
+import { Readable } from "node:stream"
+import { createGunzip } from "node:zlib"
+import { Service } from "typedi"
+
+/**
+ * Reader of page properties dumps (SQL dumps of the page_props table)
+ *
+ * The dump consists of INSERT statements with rows of pages' properties
+ * (page ID, property name, property value, sort key). Only Wikidata items of
+ * pages (the wikibase_item property) are read, which identify the subject of
+ * the page across all languages.
+ *
+ * Supported formats are plain SQL files and gzip (*.gz) files (the format
+ * published on https://dumps.wikimedia.org).
+ *
+ * @see https://www.mediawiki.org/wiki/Manual:Page_props_table
+ */
+@Service()
+export class PagePropsReader {
+  /**
+   * Name of the property with the Wikidata item of the page
+   */
+  private readonly WIKIDATA_ITEM_PROPERTY = "wikibase_item"
+
+  /**
+   * Reads Wikidata items of pages from the page properties dump
+   *
+   * @param path Path to the page properties dump file
+   * @returns Identifiers of Wikidata items (e.g., "Q937") by page IDs
+   */
+  public async readWikidataItems(path: string): Promise<Map<number, string>> {
+    const fileStream: Readable = path.endsWith(".gz")
+      ? createReadStream(path).pipe(createGunzip())
+      : createReadStream(path)
+    const lines = createInterface({ input: fileStream, crlfDelay: Infinity })
+
+    // Rows are tuples like (42,'wikibase_item','Q937',NULL), string values
+    // are escaped by backslashes
+    const rowPattern =
+      /\((\d+),'((?:[^'\\]|\\.)*)','((?:[^'\\]|\\.)*)',(?:NULL|[^)]*)\)/g
+
+    const wikidataItems = new Map<number, string>()
+    for await (const line of lines) {
+      if (!line.startsWith("INSERT INTO")) {
+        continue
+      }
+
+      for (const [, pageId, name, value] of line.matchAll(rowPattern)) {
+        if (name === this.WIKIDATA_ITEM_PROPERTY && /^Q\d+$/.test(value)) {
+          wikidataItems.set(Number(pageId), value)
+        }
+      }
+    }
+
+    return wikidataItems
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+import { XXHash128, XXHash3 } from "xxhash-addon"
+
+import { Quote } from "../entities"
+
+/**
+ * Fingerprinter of quotes for detecting duplicates
+ *
+ * Exact duplicates are detected by a hash of the normalized text (without
+ * differences in whitespace, punctuation, quotation marks, and case). Near
+ * duplicates (e.g., slightly different translations or abbreviated versions)
+ * are detected by MinHash signatures of character shingles, which estimate
+ * Jaccard similarity of the texts. Signatures are split into LSH bands, so
+ * candidates for near duplicates could be found by any matching band.
+ *
+ * @see https://en.wikipedia.org/wiki/MinHash
+ */
+@Service()
+export class QuoteFingerprinter {
+  /**
+   * Length of character shingles
+   */
+  private readonly SHINGLE_LENGTH = 5
+  /**
+   * Number of hash functions of the MinHash signature
+   */
+  private readonly SIGNATURE_LENGTH = 64
+  /**
+   * Number of signature values in a single LSH band
+   *
+   * Texts with similarity of 0.8 share at least one band with probability
+   * of 99.98 % (16 bands of 4 values).
+   */
+  private readonly BAND_SIZE = 4
+
+  /**
+   * Multipliers and increments of the hash functions (h(x) = a * x + b mod 2^32)
+   */
+  private readonly hashFunctions: { a: number; b: number }[] = []
+
+  /**
+   * Constructor for QuoteFingerprinter
+   */
+  public constructor() {
+    // Parameters are generated by a seeded generator, so signatures are
+    // comparable across runs
+    let seed = 0x9e3779b9
+    const nextRandom = (): number => {
+      // Mulberry32 (source: https://stackoverflow.com/a/47593316)
+      seed = (seed + 0x6d2b79f5) | 0
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+
+      return (t ^ (t >>> 14)) >>> 0
+    }
+
+    for (let i = 0; i < this.SIGNATURE_LENGTH; i++) {
+      // Odd multipliers make the functions permutations of 32-bit integers
+      this.hashFunctions.push({ a: nextRandom() | 1, b: nextRandom() })
+    }
+  }
+
+  /**
+   * Sets fingerprints (normalized hash, MinHash signature, LSH bands) of the quote
+   *
+   * @param quote Quote to fingerprint
+   */
+  public fingerprint(quote: Quote): void {
+    const normalizedText = this.normalize(quote.text)
+    const signature = this.computeSignature(normalizedText)
+
+    quote.normalizedHash = XXHash128.hash(Buffer.from(normalizedText)).toString(
+      "hex",
+    )
+    quote.minHash = signature
+    quote.lshBands = this.computeBands(signature)
+  }
+
+  /**
+   * Normalizes the text of the quote for comparison
+   *
+   * @param text Text of the quote
+   * @returns Normalized text (lowercase, without punctuation and redundant whitespace)
+   */
+  private normalize(text: string): string {
+    return (
+      text
+        .normalize("NFKC")
+        .toLowerCase()
+        // Quotation marks and apostrophes are punctuation as well
+        .replace(/[\p{P}\p{S}]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+  }
+
+  /**
+   * Computes the MinHash signature of the normalized text
+   *
+   * @param normalizedText Normalized text of the quote
+   * @returns Signature (signed 32-bit integers, so they could be stored in integer columns)
+   */
+  private computeSignature(normalizedText: string): number[] {
+    const shingleHashes = new Set<number>()
+    const lastStart = Math.max(0, normalizedText.length - this.SHINGLE_LENGTH)
+    for (let start = 0; start <= lastStart; start++) {
+      const shingle = normalizedText.substring(
+        start,
+        start + this.SHINGLE_LENGTH,
+      )
+      shingleHashes.add(XXHash3.hash(Buffer.from(shingle)).readUInt32BE(0))
+    }
+
+    return this.hashFunctions.map(({ a, b }) => {
+      let minimum = 0xffffffff
+      for (const shingleHash of shingleHashes) {
+        const hash = (Math.imul(a, shingleHash) + b) >>> 0
+        if (hash < minimum) {
+          minimum = hash
+        }
+      }
+
+      return minimum | 0
+    })
+  }
+
+  /**
+   * Splits the signature into LSH bands and hashes them
+   *
+   * @param signature MinHash signature
+   * @returns Keys of bands (signed 32-bit integers)
+   */
+  private computeBands(signature: number[]): number[] {
+    const bands: number[] = []
+    for (let start = 0; start < signature.length; start += this.BAND_SIZE) {
+      // Index of the band is a part of the key, so different bands never match
+      const band = Int32Array.from([
+        start,
+        ...signature.slice(start, start + this.BAND_SIZE),
+      ])
+      bands.push(XXHash3.hash(Buffer.from(band.buffer)).readInt32BE(0))
+    }
+
+    return bands
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+
+import { Author, Quote, QuoteTranslation } from "../entities"
+import {
+  AuthorService,
+  QuoteService,
+  QuoteTranslationService,
+} from "../services"
+import { QuoteTranslationParser, UsageTracker } from "../parsing"
+
+/**
+ * Linker of quotes across languages (translations of the same quote)
+ *
+ * Quotes of the same author in different languages are compared by a language
+ * model (see QuoteTranslationParser), and the matching ones are grouped into
+ * translation groups (with at most one quote per language). Languages are
+ * compared pair by pair, from the language with the fewest quotes, so the
+ * number of requests depends on the smaller language of each pair.
+ *
+ * Stored groups are kept, so only quotes without a translation into the other
+ * language are compared again (e.g., quotes of new and changed pages). The
+ * last compared candidate of each language is stored with the quote as well
+ * (see Quote.checkedTranslations), so quotes are compared only with candidates
+ * loaded since then (which have higher identifiers).
+ */
+@Service()
+export class QuoteTranslationLinker {
+  /**
+   * Maximum number of candidates compared with a quote in a single request
+   */
+  private readonly CANDIDATES_PER_REQUEST = 25
+
+  /**
+   * Constructor for QuoteTranslationLinker
+   *
+   * @param authorService Author service (dependency)
+   * @param quoteService Quote service (dependency)
+   * @param quoteTranslationService Quote translation service (dependency)
+   * @param quoteTranslationParser Quote translation parser (dependency)
+   * @param usageTracker Tracker of language model usage (dependency)
+   */
+  public constructor(
+    private readonly authorService: AuthorService,
+    private readonly quoteService: QuoteService,
+    private readonly quoteTranslationService: QuoteTranslationService,
+    private readonly quoteTranslationParser: QuoteTranslationParser,
+    private readonly usageTracker: UsageTracker,
+  ) {}
+
+  /**
+   * Links translations of quotes of all authors with quotes in multiple languages
+   *
+   * Links are saved after each author, so the linking stopped by the budget
+   * could be continued later (without paying for the linked authors again).
+   *
+   * @param budget Budget of the linking in USD (null for unlimited)
+   * @returns Number of quotes with known translations
+   * @throws LanguageModelError If no valid response arrived from the language model
+   * @throws BudgetExceededError If linking was stopped before exceeding the budget
+   */
+  public async linkTranslations(budget: number | null): Promise<number> {
+    this.usageTracker.startRun(budget)
+
+    const authors =
+      await this.authorService.fetchAllWithQuotesInMultipleLanguages()
+    console.log(
+      `[INFO] Linking translations of quotes by ${String(authors.length)} authors`,
+    )
+
+    let translatedQuotes = 0
+    try {
+      for (const author of authors) {
+        translatedQuotes += await this.linkAuthorTranslations(author)
+      }
+    } finally {
+      // Groups of deleted quotes are cleaned even if linking failed
+      await this.quoteTranslationService.deleteAllIncomplete()
+
+      const usage = this.usageTracker.summarizeRun().total
+      console.log(
+        `[INFO] Language model usage: ${String(usage.requests)} requests, ${String(usage.inputTokens)} input tokens, ${String(usage.outputTokens)} output tokens, ${usage.cost.toFixed(4)} USD`,
+      )
+    }
+
+    console.log(
+      `[INFO] Linked ${String(translatedQuotes)} quotes with their translations`,
+    )
+
+    return translatedQuotes
+  }
+
+  /**
+   * Links translations of quotes of the author
+   *
+   * @param author Author of the quotes
+   * @returns Number of the author's quotes with known translations
+   * @throws LanguageModelError If no valid response arrived from the language model
+   * @throws BudgetExceededError If linking was stopped before exceeding the budget
+   */
+  private async linkAuthorTranslations(author: Author): Promise<number> {
+    const quotes = await this.quoteService.fetchAllByAuthor(author)
+
+    // Every quote starts in its stored group (or alone)
+    const groups = new Map<Quote, Set<Quote>>()
+    const storedGroups = new Map<number, Set<Quote>>()
+    for (const quote of quotes) {
+      let group = new Set<Quote>()
+      if (quote.translation) {
+        group = storedGroups.get(quote.translation.id) ?? group
+        storedGroups.set(quote.translation.id, group)
+      }
+
+      group.add(quote)
+      groups.set(quote, group)
+    }
+
+    const quotesByLanguage = new Map<string, Quote[]>()
+    for (const quote of quotes) {
+      const abbreviation = quote.language.abbreviation
+      quotesByLanguage.set(abbreviation, [
+        ...(quotesByLanguage.get(abbreviation) ?? []),
+        quote,
+      ])
+    }
+    const languageQuotes = [...quotesByLanguage.values()].sort(
+      (a, b) => a.length - b.length,
+    )
+
+    for (let i = 0; i < languageQuotes.length; i++) {
+      for (let j = i + 1; j < languageQuotes.length; j++) {
+        await this.linkLanguages(
+          author,
+          languageQuotes[i],
+          languageQuotes[j],
+          groups,
+        )
+      }
+    }
+
+    const linkedGroups = new Set(groups.values())
+    for (const group of linkedGroups) {
+      const members = [...group]
+      const translation =
+        members.length < 2
+          ? null
+          : (members.find((quote) => quote.translation)?.translation ??
+            new QuoteTranslation())
+
+      for (const quote of members) {
+        quote.translation = translation
+      }
+    }
+    await this.quoteTranslationService.saveLinks(quotes)
+
+    return quotes.filter((quote) => quote.translation).length
+  }
+
+  /**
+   * Links quotes of one language with their translations in another language
+   *
+   * @param author Author of the quotes
+   * @param sourceQuotes Quotes in the source language (the smaller one)
+   * @param targetQuotes Quotes in the target language
+   * @param groups Translation groups of the author's quotes (updated with new links)
+   * @throws LanguageModelError If no valid response arrived from the language model
+   * @throws BudgetExceededError If linking was stopped before exceeding the budget
+   */
+  private async linkLanguages(
+    author: Author,
+    sourceQuotes: Quote[],
+    targetQuotes: Quote[],
+    groups: Map<Quote, Set<Quote>>,
+  ): Promise<void> {
+    const targetLanguage = targetQuotes[0].language.abbreviation
+    const lastTargetId = Math.max(...targetQuotes.map((quote) => quote.id))
+
+    for (const quote of sourceQuotes) {
+      // Quotes already linked with the target language (or with quotes that
+      // are) can't get another translation into it, and quotes compared in
+      // previous runs aren't compared again
+      const lastCheckedId = quote.checkedTranslations[targetLanguage] ?? 0
+      const candidates = targetQuotes.filter(
+        (candidate) =>
+          candidate.id > lastCheckedId &&
+          this.canMerge(groups, quote, candidate),
+      )
+
+      let linked = false
+      for (let i = 0; i < candidates.length; i += this.CANDIDATES_PER_REQUEST) {
+        const chunk = candidates.slice(i, i + this.CANDIDATES_PER_REQUEST)
+        const index = await this.quoteTranslationParser.findTranslation(
+          author.englishFullName,
+          quote.text,
+          chunk.map((candidate) => candidate.text),
+        )
+
+        if (index !== null) {
+          this.merge(groups, quote, chunk[index])
+          linked = true
+          break
+        }
+      }
+
+      if (!linked) {
+        quote.checkedTranslations[targetLanguage] = lastTargetId
+      }
+    }
+  }
+
+  /**
+   * Checks if groups of the quotes could be merged (they have no common language)
+   *
+   * @param groups Translation groups of the author's quotes
+   * @param first The first quote
+   * @param second The second quote
+   * @returns Could the groups be merged?
+   */
+  private canMerge(
+    groups: Map<Quote, Set<Quote>>,
+    first: Quote,
+    second: Quote,
+  ): boolean {
+    const firstLanguages = new Set(
+      [...(groups.get(first) ?? [first])].map(
+        (quote) => quote.language.abbreviation,
+      ),
+    )
+
+    return [...(groups.get(second) ?? [second])].every(
+      (quote) => !firstLanguages.has(quote.language.abbreviation),
+    )
+  }
+
+  /**
+   * Merges groups of the quotes into a single group
+   *
+   * @param groups Translation groups of the author's quotes (updated)
+   * @param first The first quote
+   * @param second The second quote
+   */
+  private merge(
+    groups: Map<Quote, Set<Quote>>,
+    first: Quote,
+    second: Quote,
+  ): void {
+    const group = new Set([
+      ...(groups.get(first) ?? [first]),
+      ...(groups.get(second) ?? [second]),
+    ])
+
+    for (const quote of group) {
+      groups.set(quote, group)
+    }
+  }
+}
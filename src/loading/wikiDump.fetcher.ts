@@ -0,0 +1,293 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { createHash } from "node:crypto"
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  unlinkSync,
+} from "node:fs"
+import { join } from "node:path"
+import { Readable, Transform } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import { ReadableStream } from "node:stream/web"
+import { Service } from "typedi"
+
+import { ConfigProvider, DumpMirrorConfig } from "../providers"
+
+import { DumpChecksumError } from "./errors/dumpChecksum.error"
+
+/**
+ * Wiki dump available on the mirror
+ *
+ * @property language Abbreviation of the language of the dump
+ * @property date Date of the dump (YYYYMMDD)
+ * @property fileName Name of the dump file
+ * @property sha1 Published SHA-1 checksum of the dump file
+ * @property pageProps Page properties dump with Wikidata items of pages (null if it isn't published)
+ */
+export interface AvailableWikiDump {
+  language: string
+
+  date: string
+
+  fileName: string
+
+  sha1: string
+
+  pageProps: { fileName: string; sha1: string } | null
+}
+
+/**
+ * Fetcher of wiki dumps from a Wikimedia-style dump mirror
+ *
+ * The mirror has the same structure as https://dumps.wikimedia.org, so there
+ * is a directory for each wiki (e.g., cswikiquote/) with subdirectories for
+ * dates of dumps (e.g., 20250320/). Each finished dump has a sha1sums file
+ * with checksums of all its files. The mirror could be accessed over HTTP(S)
+ * (directory indexes are parsed for links) or as a local directory.
+ */
+@Service()
+export class WikiDumpFetcher {
+  /**
+   * Suffix of names of the dump files (after the wiki name and the date)
+   */
+  private readonly DUMP_FILE_SUFFIX = "pages-meta-current.xml.bz2"
+  /**
+   * Suffix of names of the page properties dump files (see PagePropsReader)
+   */
+  private readonly PAGE_PROPS_FILE_SUFFIX = "page_props.sql.gz"
+
+  /**
+   * Configuration for discovering and downloading wiki dumps
+   */
+  private readonly dumpMirrorConfig: DumpMirrorConfig
+
+  /**
+   * Constructor for WikiDumpFetcher
+   *
+   * @param configProvider Config provider (dependency)
+   */
+  public constructor(configProvider: ConfigProvider) {
+    this.dumpMirrorConfig = configProvider.provideDumpMirrorConfig()
+  }
+
+  /**
+   * Finds the newest finished dump of the language on the mirror
+   *
+   * Dumps in progress don't have the dump file in their sha1sums file yet,
+   * so they are skipped.
+   *
+   * @param language Abbreviation of the language (e.g., "cs" for Czech)
+   * @returns The newest dump or null if there is none
+   */
+  public async findNewest(language: string): Promise<AvailableWikiDump | null> {
+    const wikiName = `${language}wikiquote`
+    const dates = (await this.listDirectory(wikiName))
+      .filter((entry) => /^\d{8}$/.test(entry))
+      .sort()
+      .reverse()
+
+    for (const date of dates) {
+      const fileName = `${wikiName}-${date}-${this.DUMP_FILE_SUFFIX}`
+      const pagePropsFileName = `${wikiName}-${date}-${this.PAGE_PROPS_FILE_SUFFIX}`
+
+      let sha1sums: string
+      try {
+        sha1sums = await this.readText(
+          `${wikiName}/${date}/${wikiName}-${date}-sha1sums.txt`,
+        )
+      } catch {
+        // The dump is still in progress (or failed)
+        continue
+      }
+
+      const checksums = this.parseSha1sums(sha1sums)
+      const sha1 = checksums.get(fileName)
+      const pagePropsSha1 = checksums.get(pagePropsFileName)
+      if (sha1 !== undefined) {
+        return {
+          language: language,
+          date: date,
+          fileName: fileName,
+          sha1: sha1,
+          pageProps:
+            pagePropsSha1 === undefined
+              ? null
+              : { fileName: pagePropsFileName, sha1: pagePropsSha1 },
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Downloads the dump into the download directory and verifies its checksum
+   *
+   * The page properties dump is downloaded as well (if it's published), so
+   * it's found next to the dump file by WikiquoteLoader.
+   *
+   * @param dump Dump to download
+   * @returns Path to the downloaded dump file
+   * @throws DumpChecksumError If the checksum of a downloaded file doesn't match the published one
+   */
+  public async download(dump: AvailableWikiDump): Promise<string> {
+    if (dump.pageProps !== null) {
+      await this.downloadFile(
+        dump,
+        dump.pageProps.fileName,
+        dump.pageProps.sha1,
+      )
+    }
+
+    return await this.downloadFile(dump, dump.fileName, dump.sha1)
+  }
+
+  /**
+   * Downloads the file of the dump into the download directory and verifies its checksum
+   *
+   * The file is downloaded into a *.part file first, which is renamed after
+   * successful verification, so existing dump files are always complete.
+   *
+   * @param dump Dump the file belongs to
+   * @param fileName Name of the file
+   * @param expectedSha1 Published SHA-1 checksum of the file
+   * @returns Path to the downloaded file
+   * @throws DumpChecksumError If the checksum of the downloaded file doesn't match the published one
+   */
+  private async downloadFile(
+    dump: AvailableWikiDump,
+    fileName: string,
+    expectedSha1: string,
+  ): Promise<string> {
+    const path = join(this.dumpMirrorConfig.downloadPath, fileName)
+    if (existsSync(path)) {
+      console.log(`[INFO] Wiki dump file ${fileName} is already downloaded`)
+
+      return path
+    }
+
+    console.log(
+      `[INFO] Downloading wiki dump file ${fileName} from ${this.dumpMirrorConfig.mirrorUrl}...`,
+    )
+
+    mkdirSync(this.dumpMirrorConfig.downloadPath, { recursive: true })
+    const wikiName = `${dump.language}wikiquote`
+    const hash = createHash("sha1")
+    await pipeline(
+      await this.openFile(`${wikiName}/${dump.date}/${fileName}`),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback): void {
+          hash.update(chunk)
+          callback(null, chunk)
+        },
+      }),
+      createWriteStream(`${path}.part`),
+    )
+
+    const sha1 = hash.digest("hex")
+    if (sha1 !== expectedSha1) {
+      unlinkSync(`${path}.part`)
+      throw new DumpChecksumError(
+        `Checksum ${sha1} of downloaded wiki dump file ${fileName} doesn't match the published one (${expectedSha1})`,
+      )
+    }
+    renameSync(`${path}.part`, path)
+
+    return path
+  }
+
+  /**
+   * Lists entries of the directory on the mirror
+   *
+   * @param directory Path to the directory relative to the mirror root
+   * @returns Names of entries (without trailing slashes)
+   */
+  private async listDirectory(directory: string): Promise<string[]> {
+    if (!this.isRemoteMirror()) {
+      return readdirSync(join(this.dumpMirrorConfig.mirrorUrl, directory))
+    }
+
+    // Directory indexes are HTML pages with links to entries
+    const index = await this.readText(`${directory}/`)
+
+    return [...index.matchAll(/href="([^"?/]+)\/?"/g)].map((match) => match[1])
+  }
+
+  /**
+   * Reads the whole text file from the mirror
+   *
+   * @param path Path to the file relative to the mirror root
+   * @returns Content of the file
+   */
+  private async readText(path: string): Promise<string> {
+    const chunks: Buffer[] = []
+    for await (const chunk of await this.openFile(path)) {
+      chunks.push(chunk as Buffer)
+    }
+
+    return Buffer.concat(chunks).toString("utf-8")
+  }
+
+  /**
+   * Opens the file on the mirror for reading
+   *
+   * @param path Path to the file relative to the mirror root
+   * @returns Stream with content of the file
+   * @throws Error If the file doesn't exist (or isn't accessible)
+   */
+  private async openFile(path: string): Promise<Readable> {
+    if (!this.isRemoteMirror()) {
+      const localPath = join(this.dumpMirrorConfig.mirrorUrl, path)
+      if (!existsSync(localPath)) {
+        throw new Error(`File ${localPath} doesn't exist`)
+      }
+
+      return createReadStream(localPath)
+    }
+
+    const url = `${this.dumpMirrorConfig.mirrorUrl.replace(/\/$/, "")}/${path}`
+    const response = await fetch(url)
+    if (!response.ok || response.body === null) {
+      throw new Error(
+        `Failed to fetch ${url}: ${String(response.status)} ${response.statusText}`,
+      )
+    }
+
+    return Readable.fromWeb(response.body as ReadableStream)
+  }
+
+  /**
+   * Parses the sha1sums file (lines with a checksum and a file name)
+   *
+   * @param sha1sums Content of the sha1sums file
+   * @returns Checksums by file names
+   */
+  private parseSha1sums(sha1sums: string): Map<string, string> {
+    const checksums = new Map<string, string>()
+    for (const line of sha1sums.split("\n")) {
+      const parts = line.trim().split(/\s+/)
+      if (parts.length === 2) {
+        checksums.set(parts[1], parts[0].toLowerCase())
+      }
+    }
+
+    return checksums
+  }
+
+  /**
+   * Checks if the mirror is accessed over HTTP(S)
+   *
+   * @returns Is the mirror remote?
+   */
+  private isRemoteMirror(): boolean {
+    return /^https?:\/\//.test(this.dumpMirrorConfig.mirrorUrl)
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { spawn } from "node:child_process"
+import { XMLParser } from "fast-xml-parser"
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  openSync,
+  readSync,
+} from "node:fs"
+import { createInterface } from "node:readline"
+import { PassThrough, pipeline, Readable } from "node:stream"
+import { StringDecoder } from "node:string_decoder"
+import { createGunzip } from "node:zlib"
+import { Service } from "typedi"
+import unbzip2 from "unbzip2-stream"
+import { XXHash3 } from "xxhash-addon"
+
+/**
+ * Interface for typing a single page from the wiki dump
+ *
+ * Only relevant parts of the original XML are included!
+ *
+ * @property id Identifier of the page (unique in the wiki quote instance)
+ * @property title Title of the page
+ * @property ns Identifier of the namespace the page belongs to (main namespace has 0, missing in very old dumps)
+ * @property redirect Present if the page is a redirect (empty string)
+ * @property revision Revision of the page (like a snapshot of the page)
+ * @property revision.id Identifier of the revision (unique in the wiki quote instance)
+ * @property revision.timestamp Time of the revision creation (in ISO 8601 format)
+ * @property revision.text Text of the page (in original mediawiki format)
+ */
+export interface WikiPage {
+  id: number
+
+  title: string
+
+  ns?: number
+
+  redirect?: ""
+
+  revision: {
+    id: number
+
+    timestamp: string
+
+    text: string
+  }
+}
+
+/**
+ * Interface for typing a namespace declared by the wiki dump
+ *
+ * @property key Identifier of the namespace (main namespace has 0)
+ * @property name Localized name of the namespace (used as a prefix of page titles, empty for the main namespace)
+ */
+export interface WikiNamespace {
+  key: number
+
+  name: string
+}
+
+/**
+ * Interface for typing the site information from the header of the wiki dump
+ *
+ * Only relevant parts of the original XML are included!
+ *
+ * @property dbname Name of the wiki quote instance
+ * @property namespaces Namespaces declared by the wiki quote instance
+ */
+export interface WikiSiteInfo {
+  dbname: string
+
+  namespaces: WikiNamespace[]
+}
+
+/**
+ * Interface for typing the site information as parsed from XML
+ *
+ * Namespaces are stored as elements with the identifier in an attribute, for
+ * example, <namespace key="14" case="first-letter">Category</namespace>.
+ *
+ * @property dbname Name of the wiki quote instance
+ * @property namespaces.namespace List of namespaces (the main one has no text)
+ */
+interface RawWikiSiteInfo {
+  dbname: string
+
+  namespaces?: {
+    namespace: { "#text"?: string; "@_key": string }[]
+  }
+}
+
+/**
+ * Streaming reader of (possibly multi-gigabyte) wiki dump files
+ *
+ * The dump is never loaded into memory as a whole. It's read in chunks, and
+ * only the currently processed XML element (a single page, for example) is
+ * kept in memory, so the memory consumption is bounded by the size of the
+ * largest page in the dump.
+ *
+ * Dumps can be read as published by Wikimedia, so plain XML (*.xml), bzip2
+ * (*.bz2, including multistream variant), gzip (*.gz) and 7-Zip (*.7z) files
+ * are supported. 7-Zip archives require the 7z binary to be installed.
+ */
+@Service()
+export class WikiDumpReader {
+  /**
+   * Size of the hasher secret read from wiki dump files by older versions (see computeLegacyChecksum())
+   */
+  private readonly LEGACY_CHECKSUM_SECRET_SIZE = 136
+
+  /**
+   * XML parser for pages cut out of the stream
+   */
+  private readonly pageParser = new XMLParser({
+    // Page titles and texts could look like numbers (e.g., "1984"), but they
+    // must stay strings
+    parseTagValue: false,
+  })
+  /**
+   * XML parser for the site information cut out of the stream
+   *
+   * Namespace identifiers are stored in attributes, so they can't be ignored.
+   */
+  private readonly siteInfoParser = new XMLParser({
+    parseTagValue: false,
+    ignoreAttributes: false,
+    isArray: (tagName) => tagName === "namespace",
+  })
+
+  /**
+   * Reads the site information from the header of the wiki dump
+   *
+   * @param path Path to the wiki dump file
+   * @returns Site information of the wiki dump
+   * @throws Error If the wiki dump does not contain the site information
+   */
+  public async readSiteInfo(path: string): Promise<WikiSiteInfo> {
+    for await (const element of this.readElements(path, "siteinfo")) {
+      const { siteinfo } = this.siteInfoParser.parse(element) as {
+        siteinfo: RawWikiSiteInfo
+      }
+
+      return {
+        dbname: siteinfo.dbname,
+        namespaces: (siteinfo.namespaces?.namespace ?? []).map((namespace) => ({
+          key: parseInt(namespace["@_key"]),
+          name: namespace["#text"] ?? "",
+        })),
+      }
+    }
+
+    throw new Error(`Wiki dump ${path} does not contain site information`)
+  }
+
+  /**
+   * Reads pages from the wiki dump one by one
+   *
+   * If the start page is set and the dump is a bzip2 multistream dump with its
+   * index file next to it (named as Wikimedia does), reading starts directly
+   * from the stream containing the start page. Otherwise, it starts from the
+   * beginning of the dump. In both cases, pages before the start page could
+   * be returned, so the caller needs to skip them itself.
+   *
+   * @param path Path to the wiki dump file
+   * @param startPageTitle Title of the page, which the caller wants to start with
+   * @returns Asynchronous iterator over pages of the wiki dump (in the order of the dump)
+   */
+  public async *readPages(
+    path: string,
+    startPageTitle?: string,
+  ): AsyncGenerator<WikiPage> {
+    let startOffset = 0
+    if (startPageTitle !== undefined) {
+      startOffset = await this.findMultistreamOffset(path, startPageTitle)
+    }
+
+    for await (const element of this.readElements(path, "page", startOffset)) {
+      // Values aren't parsed by the XML parser, so numeric ones need to be
+      // converted here
+      const { page } = this.pageParser.parse(element) as {
+        page: Omit<WikiPage, "id" | "ns" | "revision"> & {
+          id: string
+          ns?: string
+          revision: Omit<WikiPage["revision"], "id"> & { id: string }
+        }
+      }
+
+      yield {
+        ...page,
+        id: parseInt(page.id),
+        ns: page.ns === undefined ? undefined : parseInt(page.ns),
+        revision: { ...page.revision, id: parseInt(page.revision.id) },
+      }
+    }
+  }
+
+  /**
+   * Computes the checksum of the wiki dump file
+   *
+   * The file is hashed incrementally chunk by chunk, so it doesn't need to fit
+   * into memory.
+   *
+   * @param path Path to the wiki dump file
+   * @returns Hexadecimal checksum of the file
+   */
+  public async computeChecksum(path: string): Promise<string> {
+    const hasher = new XXHash3(Buffer.alloc(8))
+    for await (const chunk of createReadStream(path)) {
+      hasher.update(chunk as Buffer)
+    }
+
+    return hasher.digest().toString("hex")
+  }
+
+  /**
+   * Computes the checksum of the wiki dump file used by older checkpoints
+   *
+   * Older versions used the whole file as the secret of the hasher and hashed
+   * no data, so only the first 136 bytes (the minimal size of the secret)
+   * affect the checksum. Checkpoints saved by them are still accepted, so
+   * their dumps don't need to be processed from the start.
+   *
+   * @param path Path to the wiki dump file
+   * @returns Hexadecimal checksum of the file (null for files too short for the secret)
+   */
+  public computeLegacyChecksum(path: string): string | null {
+    const secret = Buffer.alloc(this.LEGACY_CHECKSUM_SECRET_SIZE)
+    const file = openSync(path, "r")
+    try {
+      if (readSync(file, secret) < secret.length) {
+        return null
+      }
+    } finally {
+      closeSync(file)
+    }
+
+    return new XXHash3(secret).digest().toString("hex")
+  }
+
+  /**
+   * Reads all XML elements with the selected tag name from the wiki dump
+   *
+   * Elements are cut out of the stream as raw XML strings, so they can't be
+   * nested in each other (which is fine for both pages and site information).
+   * Mediawiki escapes all "<" characters in page texts, so an end tag can't
+   * appear in the middle of the element's content.
+   *
+   * @param path Path to the wiki dump file
+   * @param tagName Name of the XML elements to read
+   * @param startOffset Offset in the (compressed) file to start reading from
+   * @returns Asynchronous iterator over raw XML of the elements
+   */
+  private async *readElements(
+    path: string,
+    tagName: string,
+    startOffset = 0,
+  ): AsyncGenerator<string> {
+    const startTag = `<${tagName}>`
+    const endTag = `</${tagName}>`
+
+    const stream = this.openStream(path, startOffset)
+    const decoder = new StringDecoder("utf-8")
+    // Length of the end of an incomplete element kept in the buffer, as the end
+    // tag could be split between two chunks
+    const overlap = endTag.length - 1
+    let buffer = ""
+    // Parts of an incomplete element read from previous chunks (large elements
+    // aren't concatenated and searched again for each chunk, which would take
+    // quadratic time)
+    let elementParts: string[] | null = null
+    try {
+      for await (const chunk of stream) {
+        buffer += decoder.write(chunk as Buffer)
+
+        // Finish the incomplete element first (the buffer starts inside it)
+        if (elementParts !== null) {
+          const end = buffer.indexOf(endTag)
+          if (end === -1) {
+            elementParts.push(buffer.substring(0, buffer.length - overlap))
+            buffer = buffer.substring(buffer.length - overlap)
+            continue
+          }
+
+          const elementEnd = end + endTag.length
+          elementParts.push(buffer.substring(0, elementEnd))
+          yield elementParts.join("")
+
+          elementParts = null
+          buffer = buffer.substring(elementEnd)
+        }
+
+        // Cut out all complete elements that are in the buffer
+        let start = buffer.indexOf(startTag)
+        while (start !== -1) {
+          const end = buffer.indexOf(endTag, start)
+          if (end === -1) {
+            break
+          }
+
+          const elementEnd = end + endTag.length
+          yield buffer.substring(start, elementEnd)
+
+          buffer = buffer.substring(elementEnd)
+          start = buffer.indexOf(startTag)
+        }
+
+        // Drop the content between elements, but keep a possible start of
+        // the element (its start tag could be split between two chunks)
+        if (start === -1) {
+          buffer = buffer.substring(
+            Math.max(0, buffer.length - startTag.length),
+          )
+        } else {
+          const partEnd = Math.max(start, buffer.length - overlap)
+          elementParts = [buffer.substring(start, partEnd)]
+          buffer = buffer.substring(partEnd)
+        }
+      }
+    } finally {
+      // The consumer could stop reading before the end of the file
+      stream.destroy()
+    }
+  }
+
+  /**
+   * Finds the offset of the bzip2 stream that contains the selected page
+   *
+   * Multistream dumps consist of many concatenated bzip2 streams (each with up
+   * to 100 pages), and their index file maps each page to the offset of its
+   * stream. Lines of the index have the format "offset:pageId:title".
+   *
+   * @param path Path to the wiki dump file
+   * @param pageTitle Title of the page to find
+   * @returns Offset of the stream with the page or 0 if it can't be determined
+   */
+  private async findMultistreamOffset(
+    path: string,
+    pageTitle: string,
+  ): Promise<number> {
+    // Index file of "xxx-pages-articles-multistream.xml.bz2" is
+    // "xxx-pages-articles-multistream-index.txt.bz2"
+    const indexPath = path.replace(/\.xml\.bz2$/, "-index.txt.bz2")
+    if (indexPath === path || !existsSync(indexPath)) {
+      return 0
+    }
+
+    const lines = createInterface({
+      input: this.openStream(indexPath),
+      crlfDelay: Infinity,
+    })
+    try {
+      for await (const line of lines) {
+        // Titles could contain colons, so only the first two ones are separators
+        const firstSeparator = line.indexOf(":")
+        const secondSeparator = line.indexOf(":", firstSeparator + 1)
+        if (line.substring(secondSeparator + 1) === pageTitle) {
+          return parseInt(line.substring(0, firstSeparator))
+        }
+      }
+    } finally {
+      lines.close()
+    }
+
+    return 0
+  }
+
+  /**
+   * Opens a binary stream for reading the wiki dump file
+   *
+   * Compressed files are decompressed on the fly according to their extension.
+   *
+   * @param path Path to the wiki dump file
+   * @param startOffset Offset in the file to start reading from (must be a start of a stream for *.bz2 files)
+   * @returns Readable stream with the raw (decompressed) content of the wiki dump
+   * @throws Error If the start offset is used with a compressed file that doesn't support seeking
+   */
+  private openStream(path: string, startOffset = 0): Readable {
+    const isSeekable = !path.endsWith(".gz") && !path.endsWith(".7z")
+    if (startOffset !== 0 && !isSeekable) {
+      throw new Error(`Seeking is not supported for wiki dump ${path}`)
+    }
+
+    if (path.endsWith(".7z")) {
+      const sevenZip = spawn("7z", ["x", "-so", path], {
+        stdio: ["ignore", "pipe", "ignore"],
+      })
+      // Missing 7z binary needs to be reported to the reader of the stream
+      sevenZip.on("error", (error) => sevenZip.stdout.destroy(error))
+
+      return sevenZip.stdout
+    }
+
+    // Errors of the whole pipeline are propagated to its last stream, which
+    // is read by the caller
+    const fileStream = createReadStream(path, { start: startOffset })
+    if (path.endsWith(".bz2")) {
+      return pipeline(fileStream, unbzip2(), new PassThrough(), () => {})
+    } else if (path.endsWith(".gz")) {
+      return pipeline(fileStream, createGunzip(), () => {})
+    }
+
+    return fileStream
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+
+import { ConfigProvider, LoaderConfig } from "../providers"
+
+/**
+ * Metadata of an author from Wikidata
+ *
+ * @property birthYear Year of birth (negative for years BC), null if unknown
+ * @property deathYear Year of death (negative for years BC), null for living people or if unknown
+ * @property nationality Country of citizenship in English, null if unknown
+ * @property occupation The main occupation in English, null if unknown
+ * @property description Short description in English, null if unknown
+ * @property imageFileName Name of the image file on Wikimedia Commons, null if unknown
+ */
+export interface AuthorMetadata {
+  birthYear: number | null
+  deathYear: number | null
+  nationality: string | null
+  occupation: string | null
+  description: string | null
+  imageFileName: string | null
+}
+
+/**
+ * Statement of a Wikidata item (only the used parts)
+ *
+ * @property mainsnak The main value of the statement (without a value for unknown and no values)
+ * @property rank Rank of the statement (deprecated ones are wrong)
+ */
+interface WikidataClaim {
+  mainsnak: { snaktype: string; datavalue?: { value: unknown } }
+  rank: "preferred" | "normal" | "deprecated"
+}
+
+/**
+ * Wikidata item returned by the API (only the requested parts)
+ *
+ * @property missing Set if the item doesn't exist
+ * @property labels Labels by language codes
+ * @property descriptions Descriptions by language codes
+ * @property claims Statements by property identifiers
+ */
+interface WikidataEntity {
+  missing?: string
+  labels?: Record<string, { value: string } | undefined>
+  descriptions?: Record<string, { value: string } | undefined>
+  claims?: Record<string, WikidataClaim[] | undefined>
+}
+
+/**
+ * Response of the wbgetentities API action
+ *
+ * @property entities Items by requested identifiers
+ * @property error Error of the request (if it failed)
+ */
+interface WikidataResponse {
+  entities?: Record<string, WikidataEntity>
+  error?: { info: string }
+}
+
+/**
+ * Client of the Wikidata API for metadata of authors
+ *
+ * Items are fetched by the wbgetentities action in batches, and values of
+ * item properties (nationality, occupation) are resolved to their English
+ * labels by another request.
+ *
+ * @see https://www.wikidata.org/w/api.php?action=help&modules=wbgetentities
+ */
+@Service()
+export class WikidataClient {
+  /**
+   * Maximum number of items fetched by a single request (limit of the API)
+   */
+  private readonly MAX_IDS_PER_REQUEST = 50
+  /**
+   * User agent of requests (required by Wikimedia API etiquette)
+   */
+  private readonly USER_AGENT =
+    "international-quotes-api (https://github.com/ceskyDJ/international-quotes-api)"
+  /**
+   * Identifiers of used Wikidata properties
+   */
+  private readonly PROPERTIES = {
+    birthDate: "P569",
+    deathDate: "P570",
+    citizenship: "P27",
+    occupation: "P106",
+    image: "P18",
+    instanceOf: "P31",
+  }
+  /**
+   * Identifier of the Wikidata item of humans (value of the "instance of" property)
+   */
+  private readonly HUMAN_ITEM = "Q5"
+
+  /**
+   * Configuration for loading quotes (with the Wikidata API URL)
+   */
+  private readonly loaderConfig: LoaderConfig
+
+  /**
+   * Constructor for WikidataClient
+   *
+   * @param configProvider Config provider (dependency)
+   */
+  public constructor(configProvider: ConfigProvider) {
+    this.loaderConfig = configProvider.provideLoaderConfig()
+  }
+
+  /**
+   * Fetches metadata of authors from their Wikidata items
+   *
+   * @param wikidataIds Identifiers of the authors' Wikidata items
+   * @returns Metadata by identifiers of items (missing items are skipped)
+   * @throws Error If a request to the API failed
+   */
+  public async fetchAuthorMetadata(
+    wikidataIds: string[],
+  ): Promise<Map<string, AuthorMetadata>> {
+    const entities = await this.fetchEntities(
+      wikidataIds,
+      "claims|descriptions",
+    )
+
+    // Nationality and occupation are items as well, so only their labels are
+    // shown (items used by more authors are fetched just once)
+    const itemIds = new Set<string>()
+    for (const entity of entities.values()) {
+      for (const property of [
+        this.PROPERTIES.citizenship,
+        this.PROPERTIES.occupation,
+      ]) {
+        const itemId = this.selectItemId(entity, property)
+        if (itemId !== null) {
+          itemIds.add(itemId)
+        }
+      }
+    }
+    const labels = new Map<string, string>()
+    for (const [itemId, item] of await this.fetchEntities(
+      [...itemIds],
+      "labels",
+    )) {
+      const label = item.labels?.en?.value
+      if (label !== undefined) {
+        labels.set(itemId, label)
+      }
+    }
+    const label = (itemId: string | null): string | null =>
+      itemId === null ? null : (labels.get(itemId)?.slice(0, 75) ?? null)
+
+    const metadata = new Map<string, AuthorMetadata>()
+    for (const [wikidataId, entity] of entities) {
+      const image = this.selectValue(entity, this.PROPERTIES.image)
+
+      metadata.set(wikidataId, {
+        birthYear: this.selectYear(entity, this.PROPERTIES.birthDate),
+        deathYear: this.selectYear(entity, this.PROPERTIES.deathDate),
+        nationality: label(
+          this.selectItemId(entity, this.PROPERTIES.citizenship),
+        ),
+        occupation: label(
+          this.selectItemId(entity, this.PROPERTIES.occupation),
+        ),
+        description: entity.descriptions?.en?.value.slice(0, 255) ?? null,
+        imageFileName: typeof image === "string" ? image.slice(0, 255) : null,
+      })
+    }
+
+    return metadata
+  }
+
+  /**
+   * Fetches English names of people from their Wikidata items
+   *
+   * Names are English labels of the items, or their multilingual labels
+   * (used for names written the same way in many languages) if there are no
+   * English ones.
+   *
+   * @param wikidataIds Identifiers of the items
+   * @returns Names by identifiers of items (items of non-humans, missing items and items without labels are skipped)
+   * @throws Error If a request to the API failed
+   */
+  public async fetchPeopleNames(
+    wikidataIds: string[],
+  ): Promise<Map<string, string>> {
+    const names = new Map<string, string>()
+    for (const [wikidataId, entity] of await this.fetchEntities(
+      wikidataIds,
+      "labels|claims",
+    )) {
+      const isHuman = (entity.claims?.[this.PROPERTIES.instanceOf] ?? []).some(
+        (claim) =>
+          claim.rank !== "deprecated" &&
+          (claim.mainsnak.datavalue?.value as { id?: string } | undefined)
+            ?.id === this.HUMAN_ITEM,
+      )
+      const label = entity.labels?.en?.value ?? entity.labels?.mul?.value
+      if (isHuman && label !== undefined) {
+        names.set(wikidataId, label.slice(0, 75))
+      }
+    }
+
+    return names
+  }
+
+  /**
+   * Fetches Wikidata items by their identifiers
+   *
+   * @param wikidataIds Identifiers of the items
+   * @param props Requested parts of the items (e.g., "labels")
+   * @returns Items by requested identifiers (missing items are skipped)
+   * @throws Error If a request to the API failed
+   */
+  private async fetchEntities(
+    wikidataIds: string[],
+    props: string,
+  ): Promise<Map<string, WikidataEntity>> {
+    const entities = new Map<string, WikidataEntity>()
+    for (let i = 0; i < wikidataIds.length; i += this.MAX_IDS_PER_REQUEST) {
+      const url = new URL(this.loaderConfig.wikidataApiUrl)
+      url.search = new URLSearchParams({
+        action: "wbgetentities",
+        ids: wikidataIds.slice(i, i + this.MAX_IDS_PER_REQUEST).join("|"),
+        props: props,
+        languages: "en|mul",
+        format: "json",
+      }).toString()
+
+      const response = await fetch(url, {
+        headers: { "User-Agent": this.USER_AGENT },
+      })
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch ${url.href}: ${String(response.status)} ${response.statusText}`,
+        )
+      }
+
+      const body = (await response.json()) as WikidataResponse
+      if (body.error !== undefined) {
+        throw new Error(`Wikidata API request failed: ${body.error.info}`)
+      }
+
+      // Redirected items are returned under the requested identifiers
+      for (const [wikidataId, entity] of Object.entries(body.entities ?? {})) {
+        if (entity.missing === undefined) {
+          entities.set(wikidataId, entity)
+        }
+      }
+    }
+
+    return entities
+  }
+
+  /**
+   * Selects the value of the best statement of the property
+   *
+   * Preferred statements are selected before normal ones, and deprecated
+   * statements (and statements with unknown or no value) are skipped.
+   *
+   * @param entity Wikidata item
+   * @param property Identifier of the property
+   * @returns Value of the statement or null if there is none
+   */
+  private selectValue(entity: WikidataEntity, property: string): unknown {
+    const claims = (entity.claims?.[property] ?? []).filter(
+      (claim) =>
+        claim.rank !== "deprecated" && claim.mainsnak.datavalue !== undefined,
+    )
+    const claim =
+      claims.find((candidate) => candidate.rank === "preferred") ?? claims[0]
+
+    return (
+      (claim as WikidataClaim | undefined)?.mainsnak.datavalue?.value ?? null
+    )
+  }
+
+  /**
+   * Selects the year of the best time statement of the property
+   *
+   * @param entity Wikidata item
+   * @param property Identifier of the property with time values
+   * @returns Year (negative for years BC) or null if there is none
+   */
+  private selectYear(entity: WikidataEntity, property: string): number | null {
+    const value = this.selectValue(entity, property) as { time?: string } | null
+
+    // Times are like +1879-03-14T00:00:00Z (or -0469-00-00T00:00:00Z for BC)
+    const match = /^([+-])(\d+)-/.exec(value?.time ?? "")
+    if (match === null) {
+      return null
+    }
+
+    return (match[1] === "-" ? -1 : 1) * Number(match[2])
+  }
+
+  /**
+   * Selects the item identifier of the best item statement of the property
+   *
+   * @param entity Wikidata item
+   * @param property Identifier of the property with item values
+   * @returns Identifier of the item (e.g., "Q183") or null if there is none
+   */
+  private selectItemId(
+    entity: WikidataEntity,
+    property: string,
+  ): string | null {
+    const value = this.selectValue(entity, property) as { id?: string } | null
+
+    return value?.id ?? null
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { WikidataClient } from "./wikidata.client"
+
+/**
+ * Cache of people names from Wikidata items of pages for a single run
+ *
+ * Names are fetched in groups: the requested item is fetched together with
+ * items of the following pages (by page IDs, which is the order of pages in
+ * wiki dumps), so pages read one after another don't send their own requests.
+ * Each item is fetched at most once per run (even if the request failed), so
+ * pages read again (e.g., after collecting quote candidates for a batch job)
+ * don't send any requests.
+ */
+export class WikidataNameCache {
+  /**
+   * Maximum number of items fetched together (a single request of the client)
+   */
+  private readonly GROUP_SIZE = 50
+
+  /**
+   * Identifiers of Wikidata items in the order of their pages
+   */
+  private readonly wikidataIds: string[]
+  /**
+   * Positions of items in the order of their pages
+   */
+  private readonly positions = new Map<string, number>()
+  /**
+   * Requests for names by identifiers of items (null for items of non-humans)
+   */
+  private readonly names = new Map<string, Promise<string | null>>()
+
+  /**
+   * Constructor for WikidataNameCache
+   *
+   * @param wikidataClient Client of the Wikidata API
+   * @param wikidataItems Identifiers of Wikidata items by page IDs
+   */
+  public constructor(
+    private readonly wikidataClient: WikidataClient,
+    wikidataItems: Map<number, string>,
+  ) {
+    const pageIds = [...wikidataItems.keys()].sort((a, b) => a - b)
+    this.wikidataIds = [
+      ...new Set(pageIds.map((pageId) => wikidataItems.get(pageId) as string)),
+    ]
+    this.wikidataIds.forEach((wikidataId, position) =>
+      this.positions.set(wikidataId, position),
+    )
+  }
+
+  /**
+   * Fetches the English name of the person from the Wikidata item
+   *
+   * @param wikidataId Identifier of the item
+   * @returns Name of the person or null if the item isn't a human (or it's missing, or it has no labels)
+   * @throws Error If the request to the API failed
+   */
+  public async fetchName(wikidataId: string): Promise<string | null> {
+    let name = this.names.get(wikidataId)
+    if (name === undefined) {
+      this.fetchGroup(wikidataId)
+      name = this.names.get(wikidataId) as Promise<string | null>
+    }
+
+    return await name
+  }
+
+  /**
+   * Starts fetching names of the item and items of the following pages
+   *
+   * Items of the following pages, which are already fetched (or being
+   * fetched), are skipped.
+   *
+   * @param wikidataId Identifier of the first item of the group
+   */
+  private fetchGroup(wikidataId: string): void {
+    const group = [wikidataId]
+    const position = this.positions.get(wikidataId)
+    if (position !== undefined) {
+      for (
+        let i = position + 1;
+        i < this.wikidataIds.length && group.length < this.GROUP_SIZE;
+        i++
+      ) {
+        if (!this.names.has(this.wikidataIds[i])) {
+          group.push(this.wikidataIds[i])
+        }
+      }
+    }
+
+    const names = this.wikidataClient.fetchPeopleNames(group)
+    for (const groupId of group) {
+      const name = names.then(
+        (fetchedNames) => fetchedNames.get(groupId) ?? null,
+      )
+      // Names of the following pages could be never requested, so their
+      // failures mustn't be reported as unhandled
+      void name.catch(() => undefined)
+
+      this.names.set(groupId, name)
+    }
+  }
+}
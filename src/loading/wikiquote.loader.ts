@@ -3,7 +3,6 @@
  * @date 25th April 2025
  */
 
-import { XMLParser } from "fast-xml-parser"
 import {
   existsSync,
   readFileSync,
@@ -11,101 +10,213 @@ import {
   unlinkSync,
   writeFile,
 } from "node:fs"
+import { basename } from "node:path"
 import { Service } from "typedi"
 import { XXHash3 } from "xxhash-addon"
 
-import { Author, Language, Quote } from "../entities"
-import { AuthorService, LanguageService, QuoteService } from "../services"
-import { AuthorNameParser, ContentParser, CzechParser } from "../parsing"
+import {
+  Author,
+  DumpRun,
+  DumpRunStatus,
+  Language,
+  Page,
+  Quote,
+} from "../entities"
+import { ConfigProvider, LoaderConfig } from "../providers"
+import {
+  AuthorService,
+  DumpRunService,
+  LanguageService,
+  PageService,
+  QuoteService,
+} from "../services"
+import {
+  AuthorNameParser,
+  BudgetExceededError,
+  ContentParser,
+  ContentParserRegistry,
+  LanguageModelProvider,
+  LanguageModelRequest,
+  QuoteBatchScorer,
+  QuoteCandidate,
+  QuoteParser,
+  UsageTracker,
+} from "../parsing"
+
+import { OrderedWorkerPool } from "./orderedWorker.pool"
+import { PagePropsReader } from "./pageProps.reader"
+import { QuoteFingerprinter } from "./quote.fingerprinter"
+import { WikidataClient } from "./wikidata.client"
+import { WikidataNameCache } from "./wikidataName.cache"
+import { WikiDumpReader, WikiPage, WikiSiteInfo } from "./wikiDump.reader"
 
 /**
- * Interface for typing a single page from the wiki dump
- *
- * Only relevant parts of the original XML are included!
+ * Interface for typing the checkpoint
  *
- * @property title Title of the page
- * @property redirect Present if the page is a redirect (empty string)
- * @property revision Revision of the page (like a snapshot of the page)
- * @property revision.text Text of the page (in original mediawiki format)
+ * @property timestamp Timestamp of the while, when the checkpoint was created
+ * @property wikiDumpChecksum Checksum of the wiki dump file
+ * @property lastPageTitle Title of the last page processed
  */
-interface WikiPage {
-  title: string
-
-  redirect?: ""
-
-  revision: {
-    text: string
-  }
+export interface Checkpoint {
+  timestamp: number
+  wikiDumpChecksum: string
+  lastPageTitle: string
 }
 
 /**
- * Interface for typing the whole wiki dump
- *
- * Only relevant parts of the original XML are included!
+ * Options for loading quotes from a wiki dump
  *
- * @property mediawiki.siteinfo.dbname Name of the wiki quote instance
- * @property mediawiki.page List of pages in the wiki quote instance
+ * @property batchMode Score all quote candidates in a batch job before loading (cheaper, but slower)
+ * @property budget Maximum cost of language model requests in USD (unlimited if undefined)
+ * @property pagePropsPath Path to the page properties dump with Wikidata items of pages (looked up next to the wiki dump if undefined)
  */
-interface WikiDump {
-  mediawiki: {
-    siteinfo: {
-      dbname: string
-    }
+export interface LoadOptions {
+  batchMode?: boolean
+  budget?: number
+  pagePropsPath?: string
+}
 
-    page: WikiPage[]
-  }
+/**
+ * Processing state of a wiki dump (see WikiquoteLoader.inspectWikiDump())
+ *
+ * @property dumpName Name of the wiki dump
+ * @property done Was the dump completely processed?
+ * @property checkpoint Checkpoint of the partially processed dump (null if there is none)
+ * @property batchJob Is there an unfinished batch job of the dump?
+ */
+export interface DumpStatus {
+  dumpName: string
+  done: boolean
+  checkpoint: Checkpoint | null
+  batchJob: boolean
 }
 
 /**
- * Interface for typing the checkpoint
+ * Estimate of loading quotes from a wiki dump (see WikiquoteLoader.estimateWikiDump())
  *
- * @property timestamp Timestamp of the while, when the checkpoint was created
- * @property wikiDumpChecksum Checksum of the wiki dump file
- * @property lastPageTitle Title of the last page processed
+ * @property dumpName Name of the wiki dump
+ * @property totalPages Number of all pages in the dump
+ * @property relevantPages Number of pages passing the filters (no redirects, main namespace only, no forbidden pages)
+ * @property unchangedPages Number of relevant pages unchanged since the last processed dump
+ * @property parsedPages Number of pages, which would be parsed (new and changed pages of authors)
+ * @property candidates Number of quote candidates extracted from parsed pages
+ * @property requests Number of requests, which would be sent to language models (without cached and duplicate ones)
+ * @property inputTokens Estimated number of input tokens
+ * @property outputTokens Maximum number of output tokens
+ * @property cost Estimated maximum cost of standard requests in USD
+ * @property batchCost Estimated maximum cost in USD in batch mode
  */
-interface Checkpoint {
-  timestamp: number
-  wikiDumpChecksum: string
-  lastPageTitle: string
+export interface DumpEstimate {
+  dumpName: string
+  totalPages: number
+  relevantPages: number
+  unchangedPages: number
+  parsedPages: number
+  candidates: number
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  batchCost: number
 }
 
 /**
  * Parser for wikiquote pages
  *
- * It parses the wiki dump and extracts quotes from it
+ * It parses the wiki dump and extracts quotes from it. Updates are incremental,
+ * so only pages changed since the last processed dump of the same language are
+ * parsed again (which saves calls to language models).
  */
 @Service()
 export class WikiquoteLoader {
-  private readonly contentParsers: { [key: string]: ContentParser }
+  /**
+   * Maximum age of authors' metadata, after which they are updated from Wikidata (in milliseconds)
+   */
+  private readonly AUTHOR_METADATA_MAX_AGE = 30 * 24 * 60 * 60 * 1000
+
+  /**
+   * Configuration for loading quotes from wiki dumps
+   */
+  private readonly loaderConfig: LoaderConfig
 
   /**
    * Constructor for WikiquoteParser
    *
    * @param languageService Language service (dependency)
    * @param authorService Author service (dependency)
+   * @param pageService Page service (dependency)
    * @param quoteService Quote service (dependency)
    * @param authorNameParser Author name parser (dependency)
-   * @param czechParser Czech parser (dependency)
+   * @param wikiDumpReader Wiki dump reader (dependency)
+   * @param pagePropsReader Page properties dump reader (dependency)
+   * @param contentParserRegistry Registry of content parsers for supported languages (dependency)
+   * @param quoteBatchScorer Batch scorer of quotes (dependency)
+   * @param quoteParser Quote parser (dependency)
+   * @param languageModelProvider Language model provider (dependency)
+   * @param usageTracker Tracker of language model usage (dependency)
+   * @param dumpRunService Dump run service (dependency)
+   * @param quoteFingerprinter Fingerprinter of quotes (dependency)
+   * @param wikidataClient Wikidata API client (dependency)
+   * @param configProvider Config provider (dependency)
    */
   public constructor(
     private readonly languageService: LanguageService,
     private readonly authorService: AuthorService,
+    private readonly pageService: PageService,
     private readonly quoteService: QuoteService,
     private readonly authorNameParser: AuthorNameParser,
-    czechParser: CzechParser,
+    private readonly wikiDumpReader: WikiDumpReader,
+    private readonly pagePropsReader: PagePropsReader,
+    private readonly contentParserRegistry: ContentParserRegistry,
+    private readonly quoteBatchScorer: QuoteBatchScorer,
+    private readonly quoteParser: QuoteParser,
+    private readonly languageModelProvider: LanguageModelProvider,
+    private readonly usageTracker: UsageTracker,
+    private readonly dumpRunService: DumpRunService,
+    private readonly quoteFingerprinter: QuoteFingerprinter,
+    private readonly wikidataClient: WikidataClient,
+    configProvider: ConfigProvider,
   ) {
-    this.contentParsers = {
-      cs: czechParser,
-    }
+    this.loaderConfig = configProvider.provideLoaderConfig()
   }
 
   /**
    * Loads quotes from the wiki dump file into the database
    *
+   * The dump could be compressed (see WikiDumpReader for supported formats).
+   * Checksums in checkpoints are computed over the file as is (so over the
+   * compressed data for compressed dumps).
+   *
+   * Pages are compared with the ones loaded from previous dumps, and only
+   * new and changed pages are parsed. Quotes from pages that were removed
+   * since then are deleted at the end.
+   *
+   * In batch mode, quote candidates from all new and changed pages are scored
+   * in a batch job first (see QuoteBatchScorer). Loading itself then takes
+   * the scores from the AI cache. The batch job is resumed if it was
+   * interrupted (its state is stored in a *.batch file next to the dump).
+   *
+   * Authors are identified by Wikidata items of their pages, which are read
+   * from the page properties dump of the same wiki and date (e.g.,
+   * cswikiquote-20250320-page_props.sql.gz next to the wiki dump). Without it,
+   * authors are identified by their names normalized by a language model.
+   *
+   * Usage of language models is accounted for the whole run, and it's saved
+   * as a dump run (and for each processed page) at the end. If the budget is
+   * set, the run stops before exceeding it, and it could be resumed from the
+   * checkpoint later (possibly with a higher budget).
+   *
    * @param path Path to the wiki dump file
+   * @param options Options of the loading
+   * @throws UnsupportedLanguageError If there is no content parser for the language of the dump
+   * @throws BudgetExceededError If the run was stopped before exceeding the budget
    */
-  public async loadQuotesFromWikiDump(path: string): Promise<void> {
+  public async loadQuotesFromWikiDump(
+    path: string,
+    options: LoadOptions = {},
+  ): Promise<void> {
     const realPath = realpathSync(path)
+    const dumpName = this.composeDumpName(realPath)
 
     // If a *.done file exists, it means that the wiki dump was already processed
     if (existsSync(`${realPath}.done`)) {
@@ -119,6 +230,15 @@ export class WikiquoteLoader {
       `[INFO] Loading quotes from wiki dump ${realPath}... This may take a while, depending on the size of the dump files.`,
     )
 
+    // Checksum of the wiki dump is computed lazily (only when it's needed
+    // for checkpoints), as it requires reading the whole file
+    let wikiDumpChecksum: string | undefined
+    const computeChecksum = async (): Promise<string> => {
+      wikiDumpChecksum ??= await this.wikiDumpReader.computeChecksum(realPath)
+
+      return wikiDumpChecksum
+    }
+
     // If a *.checkpoint file exists, it means that the wiki dump was partially
     // processed, and we can continue from the last page --> load the checkpoint
     let checkpoint
@@ -132,10 +252,13 @@ export class WikiquoteLoader {
         readFileSync(`${realPath}.checkpoint`, "utf-8"),
       ) as Checkpoint
 
-      // Check if the checksum of the wiki dump file is the same as in the checkpoint
-      const hasher = new XXHash3(readFileSync(realPath))
-      const wikiDumpChecksum = hasher.digest().toString("hex")
-      if (wikiDumpChecksum !== checkpoint.wikiDumpChecksum) {
+      // Check if the checksum of the wiki dump file is the same as in the
+      // checkpoint (which could be saved by an older version)
+      if (
+        (await computeChecksum()) !== checkpoint.wikiDumpChecksum &&
+        this.wikiDumpReader.computeLegacyChecksum(realPath) !==
+          checkpoint.wikiDumpChecksum
+      ) {
         console.log(
           `[ERROR] Checksum of the wiki dump file ${realPath} does not match the one in the checkpoint. It means that the file was changed since the last processing. Please remove the checkpoint file and start over.`,
         )
@@ -143,76 +266,139 @@ export class WikiquoteLoader {
       }
     }
 
-    const rawWikiDump = readFileSync(realPath, "utf-8")
-
-    // Parse the XML data into an object format
-    const xmlParser = new XMLParser()
-    const parsedWikiDump = xmlParser.parse(rawWikiDump) as WikiDump
-
     // Load language
-    const languageAbbreviation =
-      parsedWikiDump.mediawiki.siteinfo.dbname.substring(0, 2)
+    const siteInfo = await this.wikiDumpReader.readSiteInfo(realPath)
+    const languageAbbreviation = siteInfo.dbname.substring(0, 2)
+    const contentParser = this.contentParserRegistry.get(languageAbbreviation)
+    const namespacePrefixes = this.composeNamespacePrefixes(siteInfo)
     const language =
       await this.languageService.fetchByAbbreviation(languageAbbreviation)
 
     console.log(`[INFO] Detected language: ${language.englishName}`)
+    await this.updateTextSearchConfig(language, contentParser.textSearchConfig)
+
+    const wikidataItems = await this.loadWikidataItems(
+      realPath,
+      options.pagePropsPath,
+    )
+    // Names are shared by collecting quote candidates and loading
+    const wikidataNames = new WikidataNameCache(
+      this.wikidataClient,
+      wikidataItems,
+    )
+
+    await this.pageService.prepareDeduplication()
+
+    const dumpRun = new DumpRun(dumpName, language, new Date())
+    dumpRun.budget = options.budget ?? null
+    this.usageTracker.startRun(dumpRun.budget)
+
+    // Score all quote candidates at once, so the loading below takes their
+    // scores from the cache
+    if (options.batchMode) {
+      try {
+        await this.quoteBatchScorer.score(
+          `${realPath}.batch`,
+          await computeChecksum(),
+          () =>
+            this.collectQuoteCandidates(
+              realPath,
+              language,
+              contentParser,
+              namespacePrefixes,
+              wikidataItems,
+              wikidataNames,
+            ),
+        )
+      } catch (error) {
+        // State of the batch job is kept, so it's resumed by the next run
+        await this.finishDumpRun(dumpRun, this.composeRunStatus(error))
+
+        throw error
+      }
+    }
 
     // Parse quotes from pages (usually a page contains quotes of one author)
     let totalQuotes = 0
+    let unchangedPages = 0
     let skippingMode = checkpoint !== undefined
-    for (const page of parsedWikiDump.mediawiki.page) {
-      const pageTitle = String(page.title)
-      // If the checkpoint was loaded, skip all pages until the page from the checkpoint
-      if (skippingMode && pageTitle !== checkpoint?.lastPageTitle) {
-        continue
-      } else if (skippingMode && pageTitle === checkpoint?.lastPageTitle) {
-        console.log(
-          `[INFO] Continuing from the last page ${checkpoint.lastPageTitle}...`,
+    const pages = this.wikiDumpReader.readPages(
+      realPath,
+      checkpoint?.lastPageTitle,
+    )
+    // Pages are processed concurrently, but the pool knows the first page,
+    // which isn't processed yet, so it's used for the checkpoint
+    const pool = new OrderedWorkerPool<WikiPage>(
+      this.loaderConfig.concurrency,
+      async (page) => {
+        const loadedQuotes = await this.usageTracker.trackPage(page.title, () =>
+          this.processPage(
+            page,
+            language,
+            contentParser,
+            dumpName,
+            wikidataItems.get(page.id) ?? null,
+            wikidataNames,
+          ),
         )
-        skippingMode = false
-      }
 
-      try {
-        // Skip pages that are just aliases (provides redirects)
-        if (page.redirect === "") {
+        if (loadedQuotes === null) {
+          unchangedPages++
+        } else {
+          totalQuotes += loadedQuotes
+        }
+      },
+    )
+    let lastSubmittedPage: WikiPage | undefined
+    try {
+      for await (const page of pages) {
+        const pageTitle = page.title
+        // If the checkpoint was loaded, skip all pages until the page from the checkpoint
+        if (skippingMode && pageTitle !== checkpoint?.lastPageTitle) {
           continue
+        } else if (skippingMode && pageTitle === checkpoint?.lastPageTitle) {
+          console.log(
+            `[INFO] Continuing from the last page ${checkpoint.lastPageTitle}...`,
+          )
+          skippingMode = false
         }
 
-        // Skip pages that are not relevant for us (has one of the forbidden prefixes)
-        const localizedParser = this.contentParsers[languageAbbreviation]
-        if (localizedParser.isForbiddenPageName(page.title)) {
+        // Skip redirects, pages outside the main namespace, and forbidden ones
+        if (!this.isRelevantPage(page, namespacePrefixes, contentParser)) {
           continue
         }
 
-        // Parse quotes and save them to the database
-        const quotes = await this.parsePage(page, language)
-        await this.quoteService.saveAll(quotes)
-
-        const numberOfQuotesPerAuthor = quotes.length
-        if (numberOfQuotesPerAuthor === 0) {
-          console.log(
-            `[WARNING] No relevant quotes found for page ${page.title}`,
-          )
-        } else {
-          console.log(
-            `[INFO] Loaded ${String(numberOfQuotesPerAuthor)} quotes by ${quotes[0].author.englishFullName}`,
-          )
+        // Stop reading the dump when some page failed
+        if (pool.hasFailed) {
+          break
         }
 
-        totalQuotes += numberOfQuotesPerAuthor
-      } catch (error) {
+        await pool.submit(page)
+        lastSubmittedPage = page
+      }
+
+      await pool.drain()
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        console.log(
+          `[WARNING] Stopping processing of wiki dump ${realPath} before exceeding the budget: ${error.message}. Saving checkpoint...`,
+        )
+      } else {
         console.log(
           `[ERROR] Failed to process quotes from wiki dump ${realPath}. Saving checkpoint...`,
         )
+      }
 
-        // Save the checkpoint, so we can continue from this point later
-        const hasher = new XXHash3(readFileSync(realPath))
+      // Save the checkpoint, so we can continue from this point later
+      // All pages before the first unfinished one are surely processed
+      const checkpointPage = pool.firstUnfinished() ?? lastSubmittedPage
+      if (checkpointPage !== undefined) {
         writeFile(
           `${realPath}.checkpoint`,
           JSON.stringify({
             timestamp: Date.now(),
-            wikiDumpChecksum: hasher.digest().toString("hex"),
-            lastPageTitle: page.title,
+            wikiDumpChecksum: await computeChecksum(),
+            lastPageTitle: checkpointPage.title,
           } as Checkpoint),
           (fileError) => {
             if (fileError) {
@@ -223,13 +409,36 @@ export class WikiquoteLoader {
             }
           },
         )
-
-        // Rethrow the error to stop the processing
-        throw error
       }
+
+      await this.finishDumpRun(dumpRun, this.composeRunStatus(error))
+
+      // Rethrow the error to stop the processing
+      throw error
     }
 
     console.log(`[INFO] Successfully processed ${String(totalQuotes)} quotes`)
+    console.log(
+      `[INFO] Skipped ${String(unchangedPages)} pages unchanged since the last processed dump`,
+    )
+
+    // Delete quotes from pages that are not in the dump anymore (removed pages
+    // or pages that were changed to redirects, for example)
+    const removedPages = await this.pageService.deleteAllNotSeenIn(
+      language,
+      dumpName,
+    )
+    console.log(
+      `[INFO] Removed quotes from ${String(removedPages)} pages missing in the dump`,
+    )
+
+    await this.updateAuthorMetadata()
+    await this.indexQuotesForSearch(language)
+    await this.prepareAuthorSearch()
+    // Random quotes are drawn from the loaded quotes since now
+    await this.quoteService.invalidateIdPools(language)
+
+    await this.finishDumpRun(dumpRun, "completed")
 
     // Remove a checkpoint file if there was one
     if (checkpoint !== undefined) {
@@ -246,31 +455,522 @@ export class WikiquoteLoader {
     })
   }
 
+  /**
+   * Inspects the processing state of the wiki dump
+   *
+   * The state is kept in files next to the dump (*.done, *.checkpoint, and
+   * *.batch), so the dump itself isn't read.
+   *
+   * @param path Path to the wiki dump file
+   * @returns Processing state of the dump
+   */
+  public inspectWikiDump(path: string): DumpStatus {
+    const realPath = realpathSync(path)
+
+    return {
+      dumpName: this.composeDumpName(realPath),
+      done: existsSync(`${realPath}.done`),
+      checkpoint: existsSync(`${realPath}.checkpoint`)
+        ? (JSON.parse(
+            readFileSync(`${realPath}.checkpoint`, "utf-8"),
+          ) as Checkpoint)
+        : null,
+      batchJob: existsSync(`${realPath}.batch`),
+    }
+  }
+
+  /**
+   * Resets the processing state of the wiki dump, so it's processed from the start
+   *
+   * Unfinished batch jobs are kept, as their batches could be already paid.
+   *
+   * @param path Path to the wiki dump file
+   * @param includingDone Should the completely processed dump be processed again as well?
+   * @returns Names of removed state files
+   */
+  public resetWikiDump(path: string, includingDone: boolean): string[] {
+    const realPath = realpathSync(path)
+
+    const removedFiles = []
+    const stateFiles = includingDone
+      ? [`${realPath}.checkpoint`, `${realPath}.done`]
+      : [`${realPath}.checkpoint`]
+    for (const stateFile of stateFiles) {
+      if (existsSync(stateFile)) {
+        unlinkSync(stateFile)
+        removedFiles.push(stateFile)
+      }
+    }
+
+    return removedFiles
+  }
+
+  /**
+   * Estimates the costs of loading quotes from the wiki dump
+   *
+   * Pages are filtered and parsed the same way as during loading, but no
+   * requests are sent to language models, and nothing is written to the
+   * database. Only stored pages and cached responses are read, so the estimate
+   * covers just new and changed pages (like incremental updates).
+   *
+   * Authors are resolved by the same rules as during loading, so only titles
+   * of pages without Wikidata items need to be normalized by the language
+   * model. Pages, whose authors weren't resolved yet, are expected to be about
+   * people (the worst case), and page titles are used instead of their
+   * English names. Tokens of responses are counted with their maximum, so the
+   * costs are upper bounds.
+   *
+   * @param path Path to the wiki dump file
+   * @param pagePropsPath Path to the page properties dump (looked up next to the wiki dump if undefined)
+   * @returns Estimate of the loading
+   * @throws UnsupportedLanguageError If there is no content parser for the language of the dump
+   */
+  public async estimateWikiDump(
+    path: string,
+    pagePropsPath?: string,
+  ): Promise<DumpEstimate> {
+    const realPath = realpathSync(path)
+
+    console.log(
+      `[INFO] Estimating costs of loading quotes from wiki dump ${realPath}... No requests are sent to language models.`,
+    )
+
+    const siteInfo = await this.wikiDumpReader.readSiteInfo(realPath)
+    const languageAbbreviation = siteInfo.dbname.substring(0, 2)
+    const contentParser = this.contentParserRegistry.get(languageAbbreviation)
+    const namespacePrefixes = this.composeNamespacePrefixes(siteInfo)
+    const language =
+      await this.languageService.fetchByAbbreviation(languageAbbreviation)
+    const wikidataItems = await this.loadWikidataItems(realPath, pagePropsPath)
+
+    const estimate: DumpEstimate = {
+      dumpName: this.composeDumpName(realPath),
+      totalPages: 0,
+      relevantPages: 0,
+      unchangedPages: 0,
+      parsedPages: 0,
+      candidates: 0,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: 0,
+      batchCost: 0,
+    }
+
+    // The same input is sent only once (its response is cached then)
+    const requestKeys = new Set<string>()
+    const addRequest = (key: string, request: LanguageModelRequest): void => {
+      if (requestKeys.has(key)) {
+        return
+      }
+      requestKeys.add(key)
+
+      const usage = this.usageTracker.estimateUsage(request)
+      estimate.requests++
+      estimate.inputTokens += usage.inputTokens
+      estimate.outputTokens += usage.outputTokens
+    }
+
+    for await (const page of this.wikiDumpReader.readPages(realPath)) {
+      estimate.totalPages++
+      if (!this.isRelevantPage(page, namespacePrefixes, contentParser)) {
+        continue
+      }
+      estimate.relevantPages++
+
+      const storedPage = await this.fetchStoredPage(page, language)
+      if (storedPage !== null && this.isUnchanged(storedPage, page)) {
+        estimate.unchangedPages++
+        continue
+      }
+
+      // Names from Wikidata items aren't normalized by the language model
+      let authorName: string | null = page.title
+      if (!wikidataItems.has(page.id)) {
+        const authorNameRequest =
+          await this.authorNameParser.composeNormalizingRequest(page.title)
+        if (authorNameRequest === null) {
+          // Invalid and cached names are normalized without the language model
+          authorName = await this.authorNameParser.normalizeAuthorName(
+            page.title,
+          )
+        } else {
+          addRequest(`authorName\n${page.title}`, authorNameRequest)
+        }
+      }
+      if (authorName === null) {
+        continue
+      }
+      estimate.parsedPages++
+
+      for (const quote of await contentParser.extractCandidates(
+        page.revision.text,
+      )) {
+        estimate.candidates++
+
+        const scoringRequest = await this.quoteParser.composeScoringRequest(
+          authorName,
+          quote,
+        )
+        if (scoringRequest !== null) {
+          addRequest(scoringRequest.inputHash, scoringRequest.request)
+        }
+      }
+    }
+
+    const modelName = this.languageModelProvider.provide().modelName
+    const usage = {
+      inputTokens: estimate.inputTokens,
+      outputTokens: estimate.outputTokens,
+    }
+    estimate.cost = this.usageTracker.computeCost(modelName, usage, false)
+    estimate.batchCost = this.usageTracker.computeCost(modelName, usage, true)
+
+    console.log(`[INFO] Estimate of loading wiki dump ${estimate.dumpName}:`)
+    console.log(
+      `[INFO]   - pages: ${String(estimate.totalPages)} in total, ${String(estimate.relevantPages)} passing filters, ${String(estimate.unchangedPages)} unchanged, ${String(estimate.parsedPages)} to parse`,
+    )
+    console.log(`[INFO]   - quote candidates: ${String(estimate.candidates)}`)
+    console.log(
+      `[INFO]   - requests to ${modelName}: ${String(estimate.requests)} with ~${String(estimate.inputTokens)} input and at most ${String(estimate.outputTokens)} output tokens`,
+    )
+    console.log(
+      `[INFO]   - cost: at most ${estimate.cost.toFixed(2)} USD (${estimate.batchCost.toFixed(2)} USD in batch mode)`,
+    )
+
+    return estimate
+  }
+
+  /**
+   * Processes a single page from the wiki dump
+   *
+   * Quotes of new and changed pages are parsed and saved to the database
+   * (instead of the quotes from the previous revision of the page). Unchanged
+   * pages are only marked as seen in the dump.
+   *
+   * @param page Page to process
+   * @param language Language of the page
+   * @param contentParser Content parser for the language of the page
+   * @param dumpName Name of the processed wiki dump
+   * @param wikidataId Identifier of the page's Wikidata item (null if unknown)
+   * @param wikidataNames Names from Wikidata items of the run
+   * @returns Number of loaded quotes or null if the page is unchanged since the last processed dump
+   */
+  private async processPage(
+    page: WikiPage,
+    language: Language,
+    contentParser: ContentParser,
+    dumpName: string,
+    wikidataId: string | null,
+    wikidataNames: WikidataNameCache,
+  ): Promise<number | null> {
+    // Skip pages that haven't changed since the last processed dump
+    // (their quotes are already in the database)
+    const storedPage = await this.fetchStoredPage(page, language)
+    if (storedPage !== null && this.isUnchanged(storedPage, page)) {
+      storedPage.lastSeenDump = dumpName
+      await this.pageService.save(storedPage)
+
+      // Authors loaded before Wikidata items were known get them anyway
+      if (wikidataId !== null) {
+        await this.assignWikidataId(storedPage, wikidataId)
+      }
+
+      return null
+    }
+
+    // Parse quotes and save them to the database (instead of the quotes
+    // from the previous revision of the page)
+    const pageUrl = this.pageService.composeUrl(language, page.title)
+    const quotes = await this.parsePage(
+      page,
+      pageUrl,
+      language,
+      contentParser,
+      wikidataId,
+      wikidataNames,
+    )
+    // Fingerprints are used for deduplication of quotes across pages
+    for (const quote of quotes) {
+      this.quoteFingerprinter.fingerprint(quote)
+    }
+
+    // Only requests of this processing are accounted (not the cached responses)
+    const usage = this.usageTracker.currentPageUsage()
+
+    const pageEntity = storedPage ?? new Page(page.id, language)
+    pageEntity.title = page.title
+    pageEntity.revisionId = page.revision.id
+    pageEntity.revisionTimestamp = new Date(page.revision.timestamp)
+    pageEntity.contentHash = this.computeContentHash(page)
+    pageEntity.dumpName = dumpName
+    pageEntity.lastSeenDump = dumpName
+    pageEntity.inputTokens = usage?.inputTokens ?? 0
+    pageEntity.outputTokens = usage?.outputTokens ?? 0
+    pageEntity.cost = usage?.cost ?? 0
+    await this.pageService.saveWithQuotes(pageEntity, quotes, pageUrl)
+
+    if (quotes.length === 0) {
+      console.log(`[WARNING] No relevant quotes found for page ${page.title}`)
+    } else {
+      console.log(
+        `[INFO] Loaded ${String(quotes.length)} quotes by ${quotes[0].author.englishFullName}`,
+      )
+    }
+
+    return quotes.length
+  }
+
+  /**
+   * Finishes the dump run by printing and saving usage of language models
+   *
+   * Failing to save the run doesn't stop the loading, as it's only accounting.
+   *
+   * @param dumpRun Dump run to finish
+   * @param status Final state of the run
+   */
+  private async finishDumpRun(
+    dumpRun: DumpRun,
+    status: DumpRunStatus,
+  ): Promise<void> {
+    const summary = this.usageTracker.summarizeRun()
+
+    console.log(
+      `[INFO] Language models used ${String(summary.total.requests)} requests with ${String(summary.total.inputTokens)} input and ${String(summary.total.outputTokens)} output tokens for ${summary.total.cost.toFixed(4)} USD`,
+    )
+    for (const [promptName, usage] of Object.entries(summary.byParser)) {
+      console.log(
+        `[INFO]   - ${promptName}: ${String(usage.requests)} requests, ${usage.cost.toFixed(4)} USD`,
+      )
+    }
+    const expensivePages = Object.entries(summary.byPage)
+      .sort(([, a], [, b]) => b.cost - a.cost)
+      .slice(0, 5)
+    if (expensivePages.length > 0) {
+      console.log(`[INFO] The most expensive pages:`)
+      for (const [pageTitle, usage] of expensivePages) {
+        console.log(
+          `[INFO]   - ${pageTitle}: ${String(usage.requests)} requests, ${usage.cost.toFixed(4)} USD`,
+        )
+      }
+    }
+
+    dumpRun.finishedAt = new Date()
+    dumpRun.status = status
+    dumpRun.requests = summary.total.requests
+    dumpRun.inputTokens = summary.total.inputTokens
+    dumpRun.outputTokens = summary.total.outputTokens
+    dumpRun.cost = summary.total.cost
+    dumpRun.usageByParser = summary.byParser
+    try {
+      await this.dumpRunService.save(dumpRun)
+    } catch (error) {
+      console.error(error)
+      console.log(`[ERROR] Failed to save run of wiki dump ${dumpRun.dumpName}`)
+    }
+  }
+
+  /**
+   * Composes the final state of the dump run stopped by the error
+   *
+   * @param error Error that stopped the run
+   * @returns Final state of the run
+   */
+  private composeRunStatus(error: unknown): DumpRunStatus {
+    return error instanceof BudgetExceededError ? "budgetExceeded" : "failed"
+  }
+
+  /**
+   * Composes the name of the wiki dump from its path
+   *
+   * @param path Path to the wiki dump file
+   * @returns Name of the dump (e.g., "cswikiquote-20250320-pages-meta-current")
+   */
+  private composeDumpName(path: string): string {
+    return basename(path).replace(/\.xml(\.(bz2|gz|7z))?$/, "")
+  }
+
+  /**
+   * Collects quote candidates from new and changed pages of the wiki dump
+   *
+   * Pages are filtered the same way as during loading, but nothing is saved
+   * to the database. Only author names are resolved (the same way as during
+   * loading, so candidates are scored with the same names).
+   *
+   * @param path Path to the wiki dump file
+   * @param language Language of the wiki dump
+   * @param contentParser Content parser for the language of the dump
+   * @param namespacePrefixes Title prefixes of pages outside the main namespace
+   * @param wikidataItems Identifiers of Wikidata items by page IDs
+   * @param wikidataNames Names from Wikidata items of the run
+   * @returns Asynchronous iterator over quote candidates
+   */
+  private async *collectQuoteCandidates(
+    path: string,
+    language: Language,
+    contentParser: ContentParser,
+    namespacePrefixes: string[],
+    wikidataItems: Map<number, string>,
+    wikidataNames: WikidataNameCache,
+  ): AsyncGenerator<QuoteCandidate> {
+    for await (const page of this.wikiDumpReader.readPages(path)) {
+      if (!this.isRelevantPage(page, namespacePrefixes, contentParser)) {
+        continue
+      }
+
+      const storedPage = await this.fetchStoredPage(page, language)
+      if (storedPage !== null && this.isUnchanged(storedPage, page)) {
+        continue
+      }
+
+      const authorName = await this.resolveAuthorName(
+        page,
+        wikidataItems.get(page.id) ?? null,
+        wikidataNames,
+      )
+      if (authorName === null) {
+        continue
+      }
+
+      for (const quote of await contentParser.extractCandidates(
+        page.revision.text,
+      )) {
+        yield { author: authorName, quote: quote }
+      }
+    }
+  }
+
+  /**
+   * Checks if the page could contain quotes
+   *
+   * Redirects, pages outside the main namespace (talk pages, categories,
+   * templates, etc.), and pages forbidden by the content parser are skipped.
+   *
+   * @param page Page to check
+   * @param namespacePrefixes Title prefixes of pages outside the main namespace
+   * @param contentParser Content parser for the language of the page
+   * @returns Is the page relevant for loading quotes?
+   */
+  private isRelevantPage(
+    page: WikiPage,
+    namespacePrefixes: string[],
+    contentParser: ContentParser,
+  ): boolean {
+    return (
+      page.redirect !== "" &&
+      this.isInMainNamespace(page, namespacePrefixes) &&
+      !contentParser.isForbiddenPageName(page.title)
+    )
+  }
+
+  /**
+   * Checks if the page is the same as the one stored from a previous dump
+   *
+   * @param storedPage Page stored during processing of previous dumps
+   * @param page Page from the wiki dump
+   * @returns Are the revision and the content of the page unchanged?
+   */
+  private isUnchanged(storedPage: Page, page: WikiPage): boolean {
+    return (
+      storedPage.revisionId === page.revision.id &&
+      storedPage.contentHash === this.computeContentHash(page)
+    )
+  }
+
+  /**
+   * Computes the hash of the page content
+   *
+   * @param page Page from the wiki dump
+   * @returns Hexadecimal hash of the page text
+   */
+  private computeContentHash(page: WikiPage): string {
+    return XXHash3.hash(Buffer.from(page.revision.text)).toString("hex")
+  }
+
+  /**
+   * Fetches the page stored during processing of previous dumps
+   *
+   * @param page Page from the wiki dump
+   * @param language Language of the page
+   * @returns Stored page or null if the page is new
+   */
+  private async fetchStoredPage(
+    page: WikiPage,
+    language: Language,
+  ): Promise<Page | null> {
+    try {
+      return await this.pageService.fetchByPageId(language, page.id)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Composes title prefixes of pages outside the main namespace
+   *
+   * @param siteInfo Site information of the wiki dump (with declared namespaces)
+   * @returns List of prefixes (e.g., "Category:")
+   */
+  private composeNamespacePrefixes(siteInfo: WikiSiteInfo): string[] {
+    return siteInfo.namespaces
+      .filter((namespace) => namespace.key !== 0)
+      .map((namespace) => `${namespace.name}:`)
+  }
+
+  /**
+   * Checks if the page belongs to the main namespace (with articles)
+   *
+   * Namespace identifier of the page is used when available. Very old dumps
+   * don't have it, so the page title is checked for namespace prefixes then.
+   *
+   * @param page Page to check
+   * @param namespacePrefixes Title prefixes of pages outside the main namespace
+   * @returns Is the page in the main namespace?
+   */
+  private isInMainNamespace(
+    page: WikiPage,
+    namespacePrefixes: string[],
+  ): boolean {
+    if (page.ns !== undefined) {
+      return page.ns === 0
+    }
+
+    return !namespacePrefixes.some((prefix) => page.title.startsWith(prefix))
+  }
+
   /**
    * Parses a single page from the wiki dump
    *
    * @param page Page to parse
+   * @param pageUrl URL of the page (for source attribution)
    * @param language Language of the page
+   * @param contentParser Content parser for the language of the page
+   * @param wikidataId Identifier of the page's Wikidata item (null if unknown)
+   * @param wikidataNames Names from Wikidata items of the run
    * @returns List of quotes from the page
    */
   private async parsePage(
     page: WikiPage,
+    pageUrl: string,
     language: Language,
+    contentParser: ContentParser,
+    wikidataId: string | null,
+    wikidataNames: WikidataNameCache,
   ): Promise<Quote[]> {
     // Get author of quotes on this page
-    const author = await this.parseAuthor(page, language)
+    const author = await this.parseAuthor(
+      page,
+      language,
+      wikidataId,
+      wikidataNames,
+    )
 
     // Skip pages that are not focused on some author
     if (author === null) {
       return []
     }
 
-    // Compose the page URL
-    const pageUrl = `https://${language.abbreviation}.wikiquote.org/wiki/${page.title}`
-
     // Let the content parser parse the text of the page and extract quotes
-    const contentParser = this.contentParsers[language.abbreviation]
-
     console.log(`[INFO] Processing quotes by ${author.englishFullName}...`)
 
     return await contentParser.parse(
@@ -284,41 +984,309 @@ export class WikiquoteLoader {
   /**
    * Parses author from the page
    *
+   * The author is identified by the Wikidata item of the page, or by the
+   * normalized name if the item is unknown (see resolveAuthorName()).
+   *
    * @param page Page to parse
    * @param language Language of the page
-   * @returns Parsed author or null if there is not a human name in page title
+   * @param wikidataId Identifier of the page's Wikidata item (null if unknown)
+   * @param wikidataNames Names from Wikidata items of the run
+   * @returns Parsed author or null if the page isn't about a person
    */
   private async parseAuthor(
     page: WikiPage,
     language: Language,
+    wikidataId: string | null,
+    wikidataNames: WikidataNameCache,
   ): Promise<Author | null> {
-    // Load (potentially, as it could be a different type of page) author of
-    // quotes on this page
-    const potentialAuthorName = page.title
-    const normalizedAuthorName =
-      await this.authorNameParser.normalizeAuthorName(potentialAuthorName)
-
     // Check if it's a page with quotes of one author
-    // It means that the page title is a human name
-    // In case it wasn't a human name, normalizer returned null
-    if (normalizedAuthorName === null) {
+    const authorName = await this.resolveAuthorName(
+      page,
+      wikidataId,
+      wikidataNames,
+    )
+    if (authorName === null) {
       return null
     }
 
     // Get or create an author's entity
-    let author
+    const author =
+      wikidataId === null
+        ? await this.fetchAuthorByName(authorName)
+        : await this.fetchAuthorByWikidataId(wikidataId, authorName)
+
+    // Add a translated full name (original name from the page's title) to the author
+    await this.authorService.addTranslatedFullName(author, language, page.title)
+
+    return author
+  }
+
+  /**
+   * Resolves the English full name of the author of quotes on the page
+   *
+   * Pages with Wikidata items are about a person only if the item is a human,
+   * and the name is taken from the item (an author already identified by it
+   * keeps the stored name). Only titles of pages without Wikidata items are
+   * normalized by the language model (which decides whether it's a human
+   * name). The name is used for scoring quotes, so quote candidates collected
+   * for batch jobs must get the same one as during loading. Names from
+   * Wikidata items are fetched in groups and cached for the run (see
+   * WikidataNameCache), so they are the same by design.
+   *
+   * @param page Page from the wiki dump
+   * @param wikidataId Identifier of the page's Wikidata item (null if unknown)
+   * @param wikidataNames Names from Wikidata items of the run
+   * @returns English full name of the author or null if the page isn't about a person
+   */
+  private async resolveAuthorName(
+    page: WikiPage,
+    wikidataId: string | null,
+    wikidataNames: WikidataNameCache,
+  ): Promise<string | null> {
+    if (wikidataId === null) {
+      return await this.authorNameParser.normalizeAuthorName(page.title)
+    }
+
+    try {
+      return (await this.authorService.fetchByWikidataId(wikidataId))
+        .englishFullName
+    } catch {
+      // The author wasn't identified by the Wikidata item yet
+    }
+
+    try {
+      return await wikidataNames.fetchName(wikidataId)
+    } catch (error) {
+      console.error(error)
+      console.log(
+        `[WARNING] Failed to fetch Wikidata item ${wikidataId} of page ${page.title}, its title is normalized instead`,
+      )
+
+      return await this.authorNameParser.normalizeAuthorName(page.title)
+    }
+  }
+
+  /**
+   * Fetches (or creates) the author identified by the Wikidata item
+   *
+   * An author identified by the same name (loaded before Wikidata items were
+   * known) gets the Wikidata item instead of creating a new author.
+   *
+   * @param wikidataId Identifier of the author's Wikidata item
+   * @param englishFullName English full name of the author (for new authors)
+   * @returns Author with the Wikidata item
+   */
+  private async fetchAuthorByWikidataId(
+    wikidataId: string,
+    englishFullName: string,
+  ): Promise<Author> {
+    try {
+      return await this.authorService.fetchByWikidataId(wikidataId)
+    } catch {
+      // The author wasn't identified by the Wikidata item yet
+    }
+
+    let author: Author
+    try {
+      author = await this.authorService.fetchByEnglishFullName(englishFullName)
+      author.wikidataId = wikidataId
+    } catch {
+      author = new Author(englishFullName, wikidataId)
+    }
+
+    try {
+      return await this.authorService.save(author)
+    } catch {
+      // Another page of the same author (processed concurrently) could
+      // have added it in the meantime
+      return await this.authorService.fetchByWikidataId(wikidataId)
+    }
+  }
+
+  /**
+   * Fetches (or creates) the author identified by the normalized name
+   *
+   * @param englishFullName Normalized English full name of the author
+   * @returns Author without a Wikidata item
+   */
+  private async fetchAuthorByName(englishFullName: string): Promise<Author> {
     try {
       // Try to load author from the database (could be there from previous processing)
-      author =
-        await this.authorService.fetchByEnglishFullName(normalizedAuthorName)
+      return await this.authorService.fetchByEnglishFullName(englishFullName)
     } catch {
       // If the author is not in the database, we need to add it
-      author = await this.authorService.save(new Author(normalizedAuthorName))
+      try {
+        return await this.authorService.save(new Author(englishFullName, null))
+      } catch {
+        // Another page of the same author (processed concurrently) could
+        // have added it in the meantime
+        return await this.authorService.fetchByEnglishFullName(englishFullName)
+      }
     }
+  }
 
-    // Add a translated full name (original name from the page's title) to the author
-    await this.authorService.addTranslatedFullName(author, language, page.title)
+  /**
+   * Assigns the Wikidata item to the author of the unchanged page
+   *
+   * Failing to assign it doesn't stop the loading, as the author is still
+   * identified by the name.
+   *
+   * @param page Stored page (unchanged since the last processed dump)
+   * @param wikidataId Identifier of the page's Wikidata item
+   */
+  private async assignWikidataId(
+    page: Page,
+    wikidataId: string,
+  ): Promise<void> {
+    try {
+      if (await this.authorService.assignWikidataIdByPage(page, wikidataId)) {
+        console.log(
+          `[INFO] Assigned Wikidata item ${wikidataId} to author of page ${page.title}`,
+        )
+      }
+    } catch (error) {
+      console.error(error)
+      console.log(
+        `[WARNING] Failed to assign Wikidata item ${wikidataId} to author of page ${page.title}`,
+      )
+    }
+  }
 
-    return author
+  /**
+   * Updates missing and outdated metadata of authors from Wikidata
+   *
+   * Only authors with Wikidata items are updated. Failing to update them
+   * doesn't stop the loading, as they are updated by the next run anyway.
+   */
+  private async updateAuthorMetadata(): Promise<void> {
+    const authors = await this.authorService.fetchAllWithOutdatedMetadata(
+      new Date(Date.now() - this.AUTHOR_METADATA_MAX_AGE),
+    )
+    if (authors.length === 0) {
+      return
+    }
+
+    console.log(
+      `[INFO] Updating metadata of ${String(authors.length)} authors from Wikidata...`,
+    )
+    try {
+      const metadata = await this.wikidataClient.fetchAuthorMetadata(
+        authors.flatMap((author) => author.wikidataId ?? []),
+      )
+
+      const updatedAt = new Date()
+      for (const author of authors) {
+        Object.assign(author, metadata.get(author.wikidataId ?? ""))
+        author.metadataUpdatedAt = updatedAt
+      }
+      await this.authorService.saveAll(authors)
+    } catch (error) {
+      console.error(error)
+      console.log(
+        `[WARNING] Failed to update metadata of authors from Wikidata`,
+      )
+    }
+  }
+
+  /**
+   * Changes the text search configuration of the language to the selected one
+   *
+   * Configurations of languages are given by their content parsers (see
+   * LanguageProfile.textSearchConfig). Quotes indexed by the previous
+   * configuration are indexed again right away, so they could be searched
+   * during the loading.
+   *
+   * @param language Language of the loaded dump
+   * @param textSearchConfig Name of the selected text search configuration
+   */
+  private async updateTextSearchConfig(
+    language: Language,
+    textSearchConfig: string,
+  ): Promise<void> {
+    if (language.textSearchConfig === textSearchConfig) {
+      return
+    }
+
+    console.log(
+      `[INFO] Changing text search configuration of ${language.englishName} from ${language.textSearchConfig} to ${textSearchConfig}...`,
+    )
+
+    // The language is saved last, so an interrupted change is repeated
+    await this.quoteService.resetSearchIndex(language)
+    language.textSearchConfig = textSearchConfig
+    await this.languageService.save(language)
+
+    await this.indexQuotesForSearch(language)
+  }
+
+  /**
+   * Indexes new quotes in the language for full-text search
+   *
+   * Failing to index them doesn't stop the loading, as they are indexed by
+   * the next run anyway (quotes without search vectors are just not found).
+   *
+   * @param language Language of the loaded dump
+   */
+  private async indexQuotesForSearch(language: Language): Promise<void> {
+    try {
+      const indexedQuotes = await this.quoteService.indexForSearch(language)
+      console.log(
+        `[INFO] Indexed ${String(indexedQuotes)} new quotes for full-text search`,
+      )
+    } catch (error) {
+      console.error(error)
+      console.log(
+        `[WARNING] Failed to index quotes in language ${language.abbreviation} for full-text search`,
+      )
+    }
+  }
+
+  /**
+   * Prepares the database for searching authors by their names
+   *
+   * Failing to prepare it doesn't stop the loading, as it's prepared by the
+   * next run anyway (authors are just not found until then).
+   */
+  private async prepareAuthorSearch(): Promise<void> {
+    try {
+      await this.authorService.prepareSearch()
+    } catch (error) {
+      console.error(error)
+      console.log(`[WARNING] Failed to prepare searching authors by names`)
+    }
+  }
+
+  /**
+   * Loads Wikidata items of pages from the page properties dump
+   *
+   * @param path Path to the wiki dump file
+   * @param pagePropsPath Path to the page properties dump (looked up next to the wiki dump if undefined)
+   * @returns Identifiers of Wikidata items by page IDs (empty if there is no page properties dump)
+   */
+  private async loadWikidataItems(
+    path: string,
+    pagePropsPath?: string,
+  ): Promise<Map<number, string>> {
+    // e.g., cswikiquote-20250320-pages-meta-current.xml.bz2
+    // --> cswikiquote-20250320-page_props.sql.gz
+    const propsPath =
+      pagePropsPath ??
+      path.replace(/-pages-[\w-]+\.xml(\.(bz2|gz|7z))?$/, "-page_props.sql.gz")
+    if (propsPath === path || !existsSync(propsPath)) {
+      console.log(
+        `[WARNING] No page properties dump found for wiki dump ${path}. Authors are identified by their names only.`,
+      )
+
+      return new Map()
+    }
+
+    console.log(`[INFO] Loading Wikidata items of pages from ${propsPath}...`)
+    const wikidataItems =
+      await this.pagePropsReader.readWikidataItems(propsPath)
+    console.log(
+      `[INFO] Loaded Wikidata items of ${String(wikidataItems.size)} pages`,
+    )
+
+    return wikidataItems
   }
 }
@@ -4,11 +4,16 @@
  */
 
 import { Service } from "typedi"
-import OpenAI from "openai"
-import { ChatCompletionMessageParam } from "openai/resources/chat/completions/completions"
-import { ResponseFormatJSONSchema } from "openai/resources"
 
-import { ConfigProvider } from "../../providers"
+import { AiCacheService, CachedPrompt } from "../../services"
+
+import { LanguageModelError } from "../errors/languageModel.error"
+
+import {
+  LanguageModelOutputSchema,
+  LanguageModelRequest,
+} from "./languageModel"
+import { StructuredOutputClient } from "./structuredOutput.client"
 
 /**
  * Interface for typing the response from the AI model
@@ -28,9 +33,12 @@ interface AiResponse {
 @Service()
 export class AuthorNameParser {
   /**
-   * API name of the language model used for parsing quotes
+   * Version of the prompt (system message and response format)
+   *
+   * Responses are cached for each version, so it must be increased with every
+   * change of the prompt, otherwise responses of the old prompt would be used.
    */
-  private readonly MODEL_NAME = "gpt-4.1-mini"
+  private readonly PROMPT_VERSION = 1
   /**
    * Maximum number of output (and possibly reasoning) tokens for the language model
    *
@@ -41,31 +49,47 @@ export class AuthorNameParser {
    */
   private readonly MAX_TOKENS = 32
   /**
-   * Maximum number of retries for the request to AI API
-   *
-   * This is the maximum number of times the request will be retried in case of
-   * an error (e.g., server error, timeout, etc.). The delay between retries
-   * is increasing (quadratic) to avoid overwhelming the server and getting
-   * blocked by rate limiting.
+   * JSON schema of the language model output
    */
-  private readonly MAX_RETRIES = 3
-
+  private readonly OUTPUT_SCHEMA: LanguageModelOutputSchema = {
+    schemaName: "name_normalizing_schema",
+    schema: {
+      type: "object",
+      properties: {
+        isHuman: {
+          type: "boolean",
+          description: "Indicates if the text sequence is a real human name.",
+        },
+        englishName: {
+          type: "string",
+          description:
+            "The English equivalent of the name, or the same name if it is English.",
+        },
+      },
+      required: ["isHuman", "englishName"],
+      additionalProperties: false,
+    },
+  }
   /**
-   * Abstraction of OpenAI API that constructs API calls under the hood
+   * Identification of the prompt for caching responses
    */
-  private readonly openai: OpenAI
+  private readonly cachedPrompt: CachedPrompt
 
   /**
    * Constructor for the AuthorNameParser
    *
-   * @param configProvider Config provider (dependency)
+   * @param structuredOutputClient Structured output client (dependency)
+   * @param aiCacheService AI cache service (dependency)
    */
-  public constructor(configProvider: ConfigProvider) {
-    const aiApiConfig = configProvider.provideAiApiConfig()
-
-    this.openai = new OpenAI({
-      apiKey: aiApiConfig.openaiKey,
-    })
+  public constructor(
+    private readonly structuredOutputClient: StructuredOutputClient,
+    private readonly aiCacheService: AiCacheService,
+  ) {
+    this.cachedPrompt = {
+      modelName: structuredOutputClient.modelName,
+      promptName: "authorName",
+      promptVersion: this.PROMPT_VERSION,
+    }
   }
 
   /**
@@ -80,112 +104,110 @@ export class AuthorNameParser {
    *
    * @param authorName The author name to be normalized
    * @returns The normalized author name or null if not a human name
+   * @throws LanguageModelError If no valid response arrived from the language model
    */
   public async normalizeAuthorName(authorName: string): Promise<string | null> {
     // Skip empty and numeric "names"
-    if (authorName.length === 0 || !isNaN(Number(authorName))) {
+    if (!this.isValidName(authorName)) {
       return null
     }
 
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: "system",
-        content: [
-          {
-            type: "text",
-            text: 'You are a professional international linguist. You aim to decide whether the provided text sequence in different languages is a human name or something else (e.g., an object name or a verb). You have to form your output as a valid JSON object with two properties:\n- isHuman—boolean, which contains the result of your decision, if the text sequence consists of a real human name.\n- englishName—string, which is set to an English equivalent of the name (or the same name, if it was English), if isHuman is set to true.\n\nThis is an example of general input and output:\n<input>\nWinston Churchill\n</input>\n<output>\n{"isHuman":true,"englishName":"Winston Churchill"}\n</output>\n\nWhen the input contains a valid name, but it\'s not in English form, it looks like this:\n<input>\nArtur Şopenhauer\n</input>\n<output>\n{"isHuman":true,"englishName":"Arthur Schopenhauer"}\n</output>\n\nWhen the input doesn\'t contain a human name, the input and output could look like this:\n<input>\nAnimal farm\n</input>\n<output>\n{"isHuman":false,"englishName":""}\n</output>',
-          },
-        ],
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: authorName,
-          },
-        ],
-      },
-    ]
-
-    const responseFormat = {
-      type: "json_schema",
-      json_schema: {
-        name: "name_normalizing_schema",
-        strict: true,
-        schema: {
-          type: "object",
-          properties: {
-            isHuman: {
-              type: "boolean",
-              description:
-                "Indicates if the text sequence is a real human name.",
-            },
-            englishName: {
-              type: "string",
-              description:
-                "The English equivalent of the name, or the same name if it is English.",
-            },
-          },
-          required: ["isHuman", "englishName"],
-          additionalProperties: false,
-        },
-      },
-    } as ResponseFormatJSONSchema
-
-    // Try to get answer from the AI model
-    // Sometimes, there could be some error on the server side, so multiple attempts are used
-    let response
-    for (let i = 0; i < this.MAX_RETRIES; i++) {
-      try {
-        response = await this.openai.chat.completions.create({
-          model: this.MODEL_NAME,
-          messages: messages,
-          response_format: responseFormat,
-          max_completion_tokens: this.MAX_TOKENS,
-          temperature: 0, // No creativity (almost)
-          top_p: 1, // No limit for tokens available for usage
-          frequency_penalty: 0, // We're not generating creative text, so no penalty
-          presence_penalty: 0, // We're not generating creative text, so no penalty
-          store: false, // Don't store the chat logs
-        })
-
-        // Check if the response content is valid
-        if (response.choices[0].message.content === null) {
-          // Response without text is similar to no response at all, so we
-          // simulate communication error (using locally caught error) to retry
-          // noinspection ExceptionCaughtLocallyJS
-          throw new Error()
-        }
-
-        break
-      } catch (error) {
-        console.error(error)
-
-        // Ignore errors and try again after a short delay
-        // d = a^2 seconds (d = delay, a = attempt number indexed from 1)
-        // Source: https://stackoverflow.com/a/49139664
-        await new Promise((resolve) => setTimeout(resolve, 1000 * (i + 1) ** 2))
-      }
+    // The same name could be already normalized (e.g., in the previous dump),
+    // so the cached response is used instead of calling the language model
+    let parsedResponse: AiResponse | undefined
+    try {
+      parsedResponse = JSON.parse(
+        await this.aiCacheService.fetchResponse(this.cachedPrompt, authorName),
+      ) as AiResponse
+    } catch {
+      // The name wasn't normalized yet
     }
-
-    // Check if we got a response
-    if (response === undefined) {
-      throw new Error(
-        `No response arrived from language model after ${String(this.MAX_RETRIES)} attempts.`,
-      )
+    if (parsedResponse !== undefined) {
+      return parsedResponse.isHuman ? parsedResponse.englishName : null
     }
 
-    // Check if a language model returned some text
-    const responseText = response.choices[0].message.content
-    if (responseText === null) {
-      throw new Error(
-        `No text response arrived from language model. Details: ${JSON.stringify(response)}`,
+    const request = this.composeRequest(authorName)
+
+    // Retries of failed requests are handled by the client
+    const result = await this.structuredOutputClient.generate<AiResponse>(
+      request,
+      this.cachedPrompt.promptName,
+    )
+    if (result.output === null) {
+      throw new LanguageModelError(
+        `Response of language model for author name ${authorName} was truncated`,
+        false,
       )
     }
 
-    const parsedResponse = JSON.parse(responseText) as AiResponse
+    parsedResponse = result.output
+    await this.aiCacheService.saveResponse(
+      this.cachedPrompt,
+      authorName,
+      JSON.stringify(parsedResponse),
+    )
 
     return parsedResponse.isHuman ? parsedResponse.englishName : null
   }
+
+  /**
+   * Composes a request for normalizing the author name without sending it
+   *
+   * It's used for estimating costs of language models, so the same names as
+   * in normalizeAuthorName() are skipped.
+   *
+   * @param authorName The author name to be normalized
+   * @returns Request for the language model or null if the name could be normalized without it (invalid or cached name)
+   */
+  public async composeNormalizingRequest(
+    authorName: string,
+  ): Promise<LanguageModelRequest | null> {
+    if (!this.isValidName(authorName)) {
+      return null
+    }
+
+    try {
+      await this.aiCacheService.fetchResponse(this.cachedPrompt, authorName)
+
+      return null
+    } catch {
+      // The name wasn't normalized yet
+    }
+
+    return this.composeRequest(authorName)
+  }
+
+  /**
+   * Checks if the text could be a name (it isn't empty or numeric)
+   *
+   * @param authorName The author name to be checked
+   * @returns Could the text be a name?
+   */
+  private isValidName(authorName: string): boolean {
+    return authorName.length !== 0 && isNaN(Number(authorName))
+  }
+
+  /**
+   * Composes the request for the language model
+   *
+   * @param authorName The author name to be normalized
+   * @returns Request for the language model
+   */
+  private composeRequest(authorName: string): LanguageModelRequest {
+    return {
+      messages: [
+        {
+          role: "system",
+          content:
+            'You are a professional international linguist. You aim to decide whether the provided text sequence in different languages is a human name or something else (e.g., an object name or a verb). You have to form your output as a valid JSON object with two properties:\n- isHuman—boolean, which contains the result of your decision, if the text sequence consists of a real human name.\n- englishName—string, which is set to an English equivalent of the name (or the same name, if it was English), if isHuman is set to true.\n\nThis is an example of general input and output:\n<input>\nWinston Churchill\n</input>\n<output>\n{"isHuman":true,"englishName":"Winston Churchill"}\n</output>\n\nWhen the input contains a valid name, but it\'s not in English form, it looks like this:\n<input>\nArtur Şopenhauer\n</input>\n<output>\n{"isHuman":true,"englishName":"Arthur Schopenhauer"}\n</output>\n\nWhen the input doesn\'t contain a human name, the input and output could look like this:\n<input>\nAnimal farm\n</input>\n<output>\n{"isHuman":false,"englishName":""}\n</output>',
+        },
+        {
+          role: "user",
+          content: authorName,
+        },
+      ],
+      ...this.OUTPUT_SCHEMA,
+      maxTokens: this.MAX_TOKENS,
+    }
+  }
 }
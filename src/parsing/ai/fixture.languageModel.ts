@@ -0,0 +1,134 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { readFileSync } from "node:fs"
+
+import { LanguageModelError } from "../errors/languageModel.error"
+
+import {
+  LanguageModel,
+  LanguageModelRequest,
+  LanguageModelResponse,
+} from "./languageModel"
+
+/**
+ * Interface for typing a single fixture (a line of the fixtures file)
+ *
+ * @property schemaName Name of the JSON schema of the output (identifies the prompt)
+ * @property input Text of the last user message
+ * @property response Response of the language model (JSON object)
+ */
+interface Fixture {
+  schemaName: string
+
+  input: string
+
+  response: unknown
+}
+
+/**
+ * Language model replaying prepared responses (fixtures)
+ *
+ * It doesn't need any network access, and its responses are deterministic,
+ * so the whole pipeline could be run offline and in tests. Fixtures are read
+ * from a JSONL file, where each line is a JSON object like this:
+ * {"schemaName":"quote_evaluation","input":"Oscar Wilde: \"Be yourself.\"","response":{"score":95,"cleanQuote":"Be yourself."}}
+ */
+export class FixtureLanguageModel extends LanguageModel {
+  /**
+   * Responses (serialized as JSON) by fixture keys (see composeKey())
+   */
+  private fixtures: Map<string, string> | null = null
+
+  /**
+   * Constructor for FixtureLanguageModel
+   *
+   * @param modelName Name of the model (used for identification of cached responses)
+   * @param fixturesPath Path to the JSONL file with fixtures
+   */
+  public constructor(
+    public readonly modelName: string,
+    private readonly fixturesPath: string,
+  ) {
+    super()
+  }
+
+  /**
+   * Returns the prepared response for the request
+   *
+   * @param request Request for the language model
+   * @returns Response of the language model
+   * @throws LanguageModelError If the fixtures file can't be read, or there is no fixture for the request (not retryable)
+   */
+  public complete(
+    request: LanguageModelRequest,
+  ): Promise<LanguageModelResponse> {
+    // Fixtures are loaded lazily, so the file isn't needed until the first request
+    try {
+      this.fixtures ??= this.loadFixtures()
+    } catch (error) {
+      return Promise.reject(
+        new LanguageModelError(
+          `Failed to load fixtures from ${this.fixturesPath}`,
+          false,
+          null,
+          error,
+        ),
+      )
+    }
+
+    const input = request.messages
+      .filter((message) => message.role === "user")
+      .map((message) => message.content)
+      .join("\n")
+    const response = this.fixtures.get(
+      this.composeKey(request.schemaName, input),
+    )
+    if (response === undefined) {
+      return Promise.reject(
+        new LanguageModelError(
+          `No fixture of ${request.schemaName} for input ${input} in ${this.fixturesPath}`,
+          false,
+        ),
+      )
+    }
+
+    // Replayed responses don't cost anything
+    return Promise.resolve({ content: response, truncated: false, usage: null })
+  }
+
+  /**
+   * Loads fixtures from the fixtures file
+   *
+   * @returns Responses (serialized as JSON) by fixture keys
+   */
+  private loadFixtures(): Map<string, string> {
+    const fixtures = new Map<string, string>()
+    for (const line of readFileSync(this.fixturesPath, "utf-8").split("\n")) {
+      if (line.trim() === "") {
+        continue
+      }
+
+      const fixture = JSON.parse(line) as Fixture
+      fixtures.set(
+        this.composeKey(fixture.schemaName, fixture.input),
+        JSON.stringify(fixture.response),
+      )
+    }
+
+    return fixtures
+  }
+
+  /**
+   * Composes the key identifying the fixture
+   *
+   * @param schemaName Name of the JSON schema of the output
+   * @param input Text of the user messages
+   * @returns Key of the fixture
+   */
+  private composeKey(schemaName: string, input: string): string {
+    return `${schemaName}\n${input}`
+  }
+}
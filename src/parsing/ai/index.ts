@@ -4,4 +4,29 @@
  */
 
 export { AuthorNameParser } from "./authorName.parser"
+export { FixtureLanguageModel } from "./fixture.languageModel"
+export {
+  LanguageModel,
+  LanguageModelMessage,
+  LanguageModelOutputSchema,
+  LanguageModelRequest,
+  LanguageModelResponse,
+  LanguageModelUsage,
+} from "./languageModel"
+export { LanguageModelProvider } from "./languageModel.provider"
+export { OpenAiLanguageModel } from "./openAi.languageModel"
 export { QuoteParser } from "./quote.parser"
+export { RateLimiter } from "./rate.limiter"
+export { QuoteBatchScorer, QuoteCandidate } from "./quoteBatch.scorer"
+export { QuoteTranslationParser } from "./quoteTranslation.parser"
+export {
+  StructuredOutput,
+  StructuredOutputClient,
+  StructuredOutputResult,
+} from "./structuredOutput.client"
+export {
+  ModelPrice,
+  TokenUsage,
+  UsageSummary,
+  UsageTracker,
+} from "./usage.tracker"
@@ -0,0 +1,75 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+
+import { ConfigProvider } from "../../providers"
+
+import { FixtureLanguageModel } from "./fixture.languageModel"
+import { LanguageModel } from "./languageModel"
+import { OpenAiLanguageModel } from "./openAi.languageModel"
+import { RateLimiter } from "./rate.limiter"
+
+/**
+ * Provider of the language model selected by the configuration
+ *
+ * All parsers share the same instance, so they share its resources as well
+ * (e.g., rate limits of the API key).
+ */
+@Service()
+export class LanguageModelProvider {
+  /**
+   * Instance of the language model (created lazily on the first use)
+   */
+  private languageModel: LanguageModel | null = null
+
+  /**
+   * Constructor for LanguageModelProvider
+   *
+   * @param configProvider Config provider (dependency)
+   * @param rateLimiter Rate limiter of the AI API (dependency)
+   */
+  public constructor(
+    private readonly configProvider: ConfigProvider,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
+
+  /**
+   * Provides the language model selected by the configuration
+   *
+   * @returns Language model
+   */
+  public provide(): LanguageModel {
+    this.languageModel ??= this.createLanguageModel()
+
+    return this.languageModel
+  }
+
+  /**
+   * Creates the language model for the configured backend
+   *
+   * @returns New language model
+   */
+  private createLanguageModel(): LanguageModel {
+    const aiApiConfig = this.configProvider.provideAiApiConfig()
+
+    switch (aiApiConfig.provider) {
+      case "openai":
+      case "openai-compatible":
+        return new OpenAiLanguageModel(
+          aiApiConfig.model,
+          aiApiConfig.openaiKey,
+          aiApiConfig.openaiBaseUrl,
+          this.rateLimiter,
+        )
+      case "fixtures":
+        // Path is always set for this backend (checked by the config provider)
+        return new FixtureLanguageModel(
+          aiApiConfig.model,
+          aiApiConfig.fixturesPath ?? "",
+        )
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Message in the conversation with the language model
+ *
+ * @property role Role of the message author (system = instructions, user = input)
+ * @property content Text of the message
+ */
+export interface LanguageModelMessage {
+  role: "system" | "user"
+
+  content: string
+}
+
+/**
+ * JSON schema of the structured output (JSON object) from the language model
+ *
+ * @property schemaName Name of the JSON schema of the output
+ * @property schema JSON schema of the output
+ */
+export interface LanguageModelOutputSchema {
+  schemaName: string
+
+  schema: Record<string, unknown>
+}
+
+/**
+ * Request for a structured output (JSON object) from the language model
+ *
+ * @property messages Messages of the conversation (usually instructions followed by the input)
+ * @property maxTokens Maximum number of output (and possibly reasoning) tokens
+ */
+export interface LanguageModelRequest extends LanguageModelOutputSchema {
+  messages: LanguageModelMessage[]
+
+  maxTokens: number
+}
+
+/**
+ * Token usage of a single request to the language model
+ *
+ * @property inputTokens Number of input (prompt) tokens
+ * @property outputTokens Number of output (completion and possibly reasoning) tokens
+ */
+export interface LanguageModelUsage {
+  inputTokens: number
+
+  outputTokens: number
+}
+
+/**
+ * Response of the language model
+ *
+ * @property content Text of the response (JSON object serialized as a string, null if missing)
+ * @property truncated Was the response cut off due to reaching the maximum number of tokens?
+ * @property usage Token usage of the request (null if not reported by the backend)
+ */
+export interface LanguageModelResponse {
+  content: string | null
+
+  truncated: boolean
+
+  usage: LanguageModelUsage | null
+}
+
+/**
+ * Abstract language model for grouping all language model backends
+ *
+ * Parsers don't depend on a specific API, so the same prompts could be used
+ * with hosted models, locally running ones, or replayed fixtures.
+ */
+export abstract class LanguageModel {
+  /**
+   * Name of the model (used for identification of cached responses)
+   */
+  public abstract readonly modelName: string
+
+  /**
+   * Lets the language model complete the conversation
+   *
+   * Responses should be as deterministic as the backend allows (no creativity).
+   *
+   * @param request Request for the language model
+   * @returns Response of the language model
+   * @throws LanguageModelError If the communication with the backend fails
+   */
+  public abstract complete(
+    request: LanguageModelRequest,
+  ): Promise<LanguageModelResponse>
+}
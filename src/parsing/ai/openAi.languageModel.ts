@@ -0,0 +1,191 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import OpenAI, { APIError } from "openai"
+import {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions/completions"
+
+import { LanguageModelError } from "../errors/languageModel.error"
+
+import {
+  LanguageModel,
+  LanguageModelRequest,
+  LanguageModelResponse,
+} from "./languageModel"
+import { RateLimiter } from "./rate.limiter"
+
+/**
+ * Language model accessed through OpenAI API (or any API compatible with it)
+ *
+ * Servers like Ollama, llama.cpp server or vLLM provide OpenAI-compatible
+ * API, so they could be used just by changing the base URL. Rate limits are
+ * respected only if the server sends x-ratelimit-* headers (as OpenAI does).
+ */
+export class OpenAiLanguageModel extends LanguageModel {
+  /**
+   * Abstraction of OpenAI API that constructs API calls under the hood
+   */
+  public readonly client: OpenAI
+
+  /**
+   * Constructor for OpenAiLanguageModel
+   *
+   * @param modelName API name of the model (e.g., "gpt-4.1-mini")
+   * @param apiKey API key (local servers usually don't need any)
+   * @param baseUrl Base URL of the API (official OpenAI API if undefined)
+   * @param rateLimiter Rate limiter of the API
+   */
+  public constructor(
+    public readonly modelName: string,
+    apiKey: string | undefined,
+    baseUrl: string | undefined,
+    private readonly rateLimiter: RateLimiter,
+  ) {
+    super()
+
+    this.client = new OpenAI({
+      // SDK requires some key, even if the server doesn't check it
+      apiKey: apiKey ?? "none",
+      baseURL: baseUrl,
+      // Retries are handled by the structured output client
+      maxRetries: 0,
+    })
+  }
+
+  /**
+   * Lets the language model complete the conversation
+   *
+   * @param request Request for the language model
+   * @returns Response of the language model
+   * @throws LanguageModelError If the API call fails (retryable for rate limiting, server and connection errors)
+   */
+  public async complete(
+    request: LanguageModelRequest,
+  ): Promise<LanguageModelResponse> {
+    const chatCompletionRequest = this.composeChatCompletion(request)
+    await this.rateLimiter.acquire(
+      this.rateLimiter.estimateTokens(chatCompletionRequest),
+    )
+
+    try {
+      const { data, response } = await this.client.chat.completions
+        .create(chatCompletionRequest)
+        .withResponse()
+      // Headers of the fetch API response aren't properly typed by the SDK
+      this.rateLimiter.update(
+        Object.fromEntries(response.headers.entries()) as Record<
+          string,
+          string
+        >,
+      )
+
+      return this.parseChatCompletion(data)
+    } catch (error) {
+      if (!(error instanceof APIError)) {
+        throw error
+      }
+
+      // Failed responses (e.g., 429 Too Many Requests) carry current limits as well
+      const headers = error.headers as
+        | Record<string, string | null | undefined>
+        | undefined
+      if (headers !== undefined) {
+        this.rateLimiter.update(headers)
+      }
+
+      // Connection errors have no status
+      const status = error.status as number | undefined
+      throw new LanguageModelError(
+        error.message,
+        status === undefined || status === 429 || status >= 500,
+        headers === undefined ? null : this.parseRetryAfter(headers),
+        error,
+      )
+    }
+  }
+
+  /**
+   * Composes parameters of the chat completion API call for the request
+   *
+   * @param request Request for the language model
+   * @returns Parameters of the chat completion API call
+   */
+  public composeChatCompletion(
+    request: LanguageModelRequest,
+  ): ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: this.modelName,
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: [{ type: "text", text: message.content }],
+      })),
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: request.schemaName,
+          schema: request.schema,
+          strict: true,
+        },
+      },
+      max_completion_tokens: request.maxTokens,
+      temperature: 0, // No creativity (almost)
+      top_p: 1, // No limit for tokens available for usage
+      frequency_penalty: 0, // We're not generating creative text, so no penalty
+      presence_penalty: 0, // We're not generating creative text, so no penalty
+      store: false, // Don't store the chat logs
+    }
+  }
+
+  /**
+   * Converts the chat completion into a response of the language model
+   *
+   * @param completion Chat completion returned by the API
+   * @returns Response of the language model
+   */
+  public parseChatCompletion(
+    completion: ChatCompletion,
+  ): LanguageModelResponse {
+    return {
+      content: completion.choices[0].message.content,
+      truncated: completion.choices[0].finish_reason === "length",
+      usage:
+        completion.usage === undefined
+          ? null
+          : {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+            },
+    }
+  }
+
+  /**
+   * Parses the delay requested by the API before retrying
+   *
+   * @param headers Headers of the API response
+   * @returns Delay in milliseconds or null if not requested
+   */
+  private parseRetryAfter(
+    headers: Record<string, string | null | undefined>,
+  ): number | null {
+    const retryAfterMs = headers["retry-after-ms"]
+    if (retryAfterMs) {
+      return parseFloat(retryAfterMs)
+    }
+
+    // Retry-After contains either a number of seconds or an HTTP date
+    const retryAfter = headers["retry-after"]
+    if (!retryAfter) {
+      return null
+    } else if (!isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000
+    }
+
+    const retryDate = Date.parse(retryAfter)
+
+    return isNaN(retryDate) ? null : Math.max(0, retryDate - Date.now())
+  }
+}
@@ -4,11 +4,19 @@
  */
 
 import { Service } from "typedi"
-import OpenAI from "openai"
-import { ChatCompletionMessageParam } from "openai/resources/chat/completions/completions"
-import { ResponseFormatJSONSchema } from "openai/resources"
 
-import { ConfigProvider } from "../../providers"
+import { AiCacheService, CachedPrompt } from "../../services"
+
+import {
+  LanguageModelOutputSchema,
+  LanguageModelRequest,
+  LanguageModelResponse,
+} from "./languageModel"
+import {
+  StructuredOutput,
+  StructuredOutputClient,
+} from "./structuredOutput.client"
+import { UsageTracker } from "./usage.tracker"
 
 /**
  * Interface for typing the response from the AI model
@@ -39,15 +47,30 @@ export interface ParsedQuote {
   cleanQuote: string
 }
 
+/**
+ * Request for scoring a quote outside the quote parser (e.g., in a batch job)
+ *
+ * @property inputHash Hash of the language model input (identifies the request)
+ * @property request Request for the language model
+ */
+export interface QuoteScoringRequest {
+  inputHash: string
+
+  request: LanguageModelRequest
+}
+
 /**
  * Class for parsing (mainly scoring) quotes using Google AI
  */
 @Service()
 export class QuoteParser {
   /**
-   * API name of the language model used for parsing quotes
+   * Version of the prompt (system message and response format)
+   *
+   * Responses are cached for each version, so it must be increased with every
+   * change of the prompt, otherwise responses of the old prompt would be used.
    */
-  private readonly MODEL_NAME = "gpt-4.1-mini"
+  private readonly PROMPT_VERSION = 2
   /**
    * Maximum number of output (and possibly reasoning) tokens for the language model
    *
@@ -58,31 +81,50 @@ export class QuoteParser {
    */
   private readonly MAX_TOKENS = 2048
   /**
-   * Maximum number of retries for the request to AI API
-   *
-   * This is the maximum number of times the request will be retried in case of
-   * an error (e.g., server error, timeout, etc.). The delay between retries
-   * is increasing (quadratic) to avoid overwhelming the server and getting
-   * blocked by rate limiting.
+   * JSON schema of the language model output
    */
-  private readonly MAX_RETRIES = 3
+  private readonly OUTPUT_SCHEMA: LanguageModelOutputSchema = {
+    schemaName: "quote_evaluation",
+    schema: {
+      type: "object",
+      required: ["score", "cleanQuote"],
+      properties: {
+        score: {
+          type: "integer",
+          description: "The score given to the quote.",
+        },
+        cleanQuote: {
+          type: "string",
+          description:
+            "The cleaned version of the quote, free from variants and irrelevant text.",
+        },
+      },
+      additionalProperties: false,
+    },
+  }
 
   /**
-   * Abstraction of OpenAI API that constructs API calls under the hood
+   * Identification of the prompt for caching responses
    */
-  private readonly openai: OpenAI
+  private readonly cachedPrompt: CachedPrompt
 
   /**
    * Constructor for the QuoteParser
    *
-   * @param configProvider Config provider (dependency)
+   * @param structuredOutputClient Structured output client (dependency)
+   * @param aiCacheService AI cache service (dependency)
+   * @param usageTracker Usage tracker (dependency)
    */
-  public constructor(configProvider: ConfigProvider) {
-    const aiApiConfig = configProvider.provideAiApiConfig()
-
-    this.openai = new OpenAI({
-      apiKey: aiApiConfig.openaiKey,
-    })
+  public constructor(
+    private readonly structuredOutputClient: StructuredOutputClient,
+    private readonly aiCacheService: AiCacheService,
+    private readonly usageTracker: UsageTracker,
+  ) {
+    this.cachedPrompt = {
+      modelName: structuredOutputClient.modelName,
+      promptName: "quote",
+      promptVersion: this.PROMPT_VERSION,
+    }
   }
 
   /**
@@ -96,6 +138,7 @@ export class QuoteParser {
    * @param author The author of the quote
    * @param quote The quote to be scored
    * @returns The score of the quote
+   * @throws LanguageModelError If no valid response arrived from the language model
    */
   public async parseQuote(author: string, quote: string): Promise<ParsedQuote> {
     // Skip too long quotes (would fail processing by the language model anyway)
@@ -103,116 +146,160 @@ export class QuoteParser {
       return { score: 0, cleanQuote: "" } as AiResponse
     }
 
-    const messages = [
-      {
-        role: "system",
-        content: [
-          {
-            text: 'You are an international expert focused on quotes. You will get quotes in different languages and aim to score their correctness and contribution to society using a single integer from 0 to 100. You can measure the contribution value according to the quote\'s popularity (or its variants in other languages), penalizing very long quotes, as people often skip reading for their complexity.\n\nConstruct output as a JSON object with these two properties:\n- score—integer, which is set to the quote score you gave to the quote.\n- cleanQuote—string, where you put the quote cleaned of other variants of the quote (in different languages) and other text not corresponding to the quote, if the score isn\'t zero.\n\nHere is an example of a standard input:\n<input>\nOscar Wilde: "Be yourself; everyone else is already taken."\n</input>\n<output>\n{"score":95,"cleanQuote":"Be yourself; everyone else is already taken."}\n</output>\n\nSometimes, you get a text that is structured as a quote (Author name: "Some text here"), but the text in quotes isn\'t a quote of some person but just some random (e.g., descriptive) text. This means the input is wrong (the text was wrongly classified as a quote). In this case, return 0 as an output. An example could look like this:\n<input>\nDante Alighieri: "Libri iii, Caput XIII, (XV.) emendati Johann Heinrich F. Karl Witte (1874) p. 25. Translation as quoted by Hannah Arendt, The Human Condition (1958), p. 175."\n</input>\n<output>\n{"score":0}\n</output>\n\nWhen the quote contains other language variants or something that does not correspond with the quote, you need to clean the quote. An example could look like this:\n<input>\nLucius Annaeus Seneca: "Svolného osud vede, zpurného vleče. (Volentem fata ducunt, nolentem trahunt.)"\n</input>\n<output>\n{"score":92,"cleanQuote":"Svolného osud vede, zpurného vleče."}\n</output>',
-            type: "text",
-          },
-        ],
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: `${author}: "${quote}"`,
-          },
-        ],
-      },
-    ] as ChatCompletionMessageParam[]
-
-    const responseFormat = {
-      type: "json_schema",
-      json_schema: {
-        name: "quote_evaluation",
-        schema: {
-          type: "object",
-          required: ["score", "cleanQuote"],
-          properties: {
-            score: {
-              type: "integer",
-              description: "The score given to the quote.",
-            },
-            cleanQuote: {
-              type: "string",
-              description:
-                "The cleaned version of the quote, free from variants and irrelevant text.",
-            },
-          },
-          additionalProperties: false,
-        },
-        strict: true,
-      },
-    } as ResponseFormatJSONSchema
-
-    // Try to get answer from the AI model
-    // Sometimes, there could be some error on the server side, so multiple attempts are used
-    let response
-    let parsedResponse
-    for (let i = 0; i < this.MAX_RETRIES; i++) {
-      try {
-        response = await this.openai.chat.completions.create({
-          model: this.MODEL_NAME,
-          messages: messages,
-          response_format: responseFormat,
-          max_completion_tokens: this.MAX_TOKENS,
-          temperature: 0, // No creativity (almost)
-          top_p: 1, // No limit for tokens available for usage
-          frequency_penalty: 0, // We're not generating creative text, so no penalty
-          presence_penalty: 0, // We're not generating creative text, so no penalty
-          store: false, // Don't store the chat logs
-        })
-
-        // Very long quotes aren't processed successfully by the language model,
-        // but we don't want them at all, so we just ignore them by scoring to 0
-        if (response.choices[0].finish_reason === "length") {
-          parsedResponse = { score: 0, cleanQuote: "" } as AiResponse
-          break
-        }
-
-        // Check if the response content is valid
-        const responseText = response.choices[0].message.content
-        if (responseText === null) {
-          // Response without text is similar to no response at all, so we
-          // simulate communication error (using locally caught error) to retry
-          // noinspection ExceptionCaughtLocallyJS
-          throw new Error()
-        }
-
-        // Output is a JSON object, so need to be parsed and typed
-        parsedResponse = JSON.parse(responseText) as AiResponse
-
-        break
-      } catch (error) {
-        console.error(error)
-
-        // Ignore errors and try again after a short delay
-        // d = a^2 seconds (d = delay, a = attempt number indexed from 1)
-        // Source: https://stackoverflow.com/a/49139664
-        await new Promise((resolve) => setTimeout(resolve, 1000 * (i + 1) ** 2))
-      }
+    // Identical quotes could be already scored (e.g., in the previous dump),
+    // so the cached response is used instead of calling the language model
+    const input = this.composeInput(author, quote)
+    try {
+      const cachedResponse = await this.aiCacheService.fetchResponse(
+        this.cachedPrompt,
+        input,
+      )
+
+      return JSON.parse(cachedResponse) as ParsedQuote
+    } catch {
+      // The quote wasn't scored yet
     }
 
-    // Check if we got a response
-    if (response === undefined) {
-      throw new Error(
-        `No response arrived from language model after ${String(this.MAX_RETRIES)} attempts.`,
-      )
+    // Retries of failed requests are handled by the client
+    const request = this.composeRequest(input)
+    const parsedResponse = this.parseOutput(
+      await this.structuredOutputClient.generate<AiResponse>(
+        request,
+        this.cachedPrompt.promptName,
+      ),
+    )
+
+    await this.aiCacheService.saveResponse(
+      this.cachedPrompt,
+      input,
+      JSON.stringify(parsedResponse),
+    )
+
+    return parsedResponse
+  }
+
+  /**
+   * Composes a request for scoring the quote outside the quote parser
+   *
+   * Quotes that don't need to be sent to the language model (too long ones and
+   * the already scored ones) don't get any request.
+   *
+   * @param author The author of the quote
+   * @param quote The quote to be scored
+   * @returns Request for scoring or null if the quote doesn't need to be scored
+   */
+  public async composeScoringRequest(
+    author: string,
+    quote: string,
+  ): Promise<QuoteScoringRequest | null> {
+    if (quote.length > 1_000) {
+      return null
     }
 
-    // Check if a language model returned some text
-    if (parsedResponse === undefined) {
-      throw new Error(
-        `No text response arrived from language model. Details: ${JSON.stringify(response)}`,
-      )
+    const input = this.composeInput(author, quote)
+    try {
+      await this.aiCacheService.fetchResponse(this.cachedPrompt, input)
+
+      return null
+    } catch {
+      // The quote wasn't scored yet
+    }
+
+    return {
+      inputHash: this.aiCacheService.hashInput(input),
+      request: this.composeRequest(input),
+    }
+  }
+
+  /**
+   * Saves the response to the scoring request into the cache
+   *
+   * Quotes scored outside the quote parser are then taken from the cache by
+   * parseQuote() without calling the language model again. Usage of the response
+   * is recorded with the discount of batch jobs.
+   *
+   * @param inputHash Hash of the language model input (see composeScoringRequest())
+   * @param response Response of the language model to the request
+   * @throws LanguageModelError If the response is missing or invalid
+   */
+  public async saveScoringResponse(
+    inputHash: string,
+    response: LanguageModelResponse,
+  ): Promise<void> {
+    this.usageTracker.record(
+      this.cachedPrompt.promptName,
+      this.structuredOutputClient.modelName,
+      response.usage,
+      true,
+    )
+
+    const parsedQuote = this.parseOutput(
+      this.structuredOutputClient.parseResponse<AiResponse>(
+        this.OUTPUT_SCHEMA,
+        response,
+      ),
+    )
+
+    await this.aiCacheService.saveResponseByInputHash(
+      this.cachedPrompt,
+      inputHash,
+      JSON.stringify(parsedQuote),
+    )
+  }
+
+  /**
+   * Composes the input for the language model
+   *
+   * @param author The author of the quote
+   * @param quote The quote to be scored
+   * @returns Input text for the language model
+   */
+  private composeInput(author: string, quote: string): string {
+    return `${author}: "${quote}"`
+  }
+
+  /**
+   * Composes the request for scoring the input
+   *
+   * @param input Input text for the language model (see composeInput())
+   * @returns Request for the language model
+   */
+  private composeRequest(input: string): LanguageModelRequest {
+    return {
+      messages: [
+        {
+          role: "system",
+          content:
+            'You are an international expert focused on quotes. You will get quotes in different languages and aim to score their correctness and contribution to society using a single integer from 0 to 100. You can measure the contribution value according to the quote\'s popularity (or its variants in other languages), penalizing very long quotes, as people often skip reading for their complexity.\n\nConstruct output as a JSON object with these two properties:\n- score—integer, which is set to the quote score you gave to the quote.\n- cleanQuote—string, where you put the quote cleaned of other variants of the quote (in different languages) and other text not corresponding to the quote, or an empty string if the score is zero.\n\nHere is an example of a standard input:\n<input>\nOscar Wilde: "Be yourself; everyone else is already taken."\n</input>\n<output>\n{"score":95,"cleanQuote":"Be yourself; everyone else is already taken."}\n</output>\n\nSometimes, you get a text that is structured as a quote (Author name: "Some text here"), but the text in quotes isn\'t a quote of some person but just some random (e.g., descriptive) text. This means the input is wrong (the text was wrongly classified as a quote). In this case, return 0 as the score and an empty string as the cleaned quote. An example could look like this:\n<input>\nDante Alighieri: "Libri iii, Caput XIII, (XV.) emendati Johann Heinrich F. Karl Witte (1874) p. 25. Translation as quoted by Hannah Arendt, The Human Condition (1958), p. 175."\n</input>\n<output>\n{"score":0,"cleanQuote":""}\n</output>\n\nWhen the quote contains other language variants or something that does not correspond with the quote, you need to clean the quote. An example could look like this:\n<input>\nLucius Annaeus Seneca: "Svolného osud vede, zpurného vleče. (Volentem fata ducunt, nolentem trahunt.)"\n</input>\n<output>\n{"score":92,"cleanQuote":"Svolného osud vede, zpurného vleče."}\n</output>',
+        },
+        {
+          role: "user",
+          content: input,
+        },
+      ],
+      ...this.OUTPUT_SCHEMA,
+      maxTokens: this.MAX_TOKENS,
+    }
+  }
+
+  /**
+   * Converts the output of the language model into a parsed quote
+   *
+   * @param structuredOutput Validated output of the language model
+   * @returns Parsed quote with its score
+   */
+  private parseOutput(
+    structuredOutput: StructuredOutput<AiResponse>,
+  ): ParsedQuote {
+    // Very long quotes aren't processed successfully by the language model,
+    // but we don't want them at all, so we just ignore them by scoring to 0
+    if (structuredOutput.output === null) {
+      return { score: 0, cleanQuote: "" }
     }
 
     return {
-      score: parsedResponse.score,
-      cleanQuote: parsedResponse.cleanQuote,
+      score: structuredOutput.output.score,
+      cleanQuote: structuredOutput.output.cleanQuote,
     }
   }
 }
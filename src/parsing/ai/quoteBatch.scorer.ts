@@ -0,0 +1,501 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+  WriteStream,
+} from "node:fs"
+import { once } from "node:events"
+import { createInterface } from "node:readline"
+import { finished } from "node:stream/promises"
+import { Batch } from "openai/resources"
+import {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions/completions"
+import { Service } from "typedi"
+
+import { LanguageModelProvider } from "./languageModel.provider"
+import { OpenAiLanguageModel } from "./openAi.languageModel"
+import { QuoteParser } from "./quote.parser"
+import { UsageTracker } from "./usage.tracker"
+
+/**
+ * Quote candidate to be scored in a batch job
+ *
+ * @property author English full name of the author of the quote
+ * @property quote Text of the quote candidate
+ */
+export interface QuoteCandidate {
+  author: string
+
+  quote: string
+}
+
+/**
+ * Interface for typing a request in the batch job (a single line of the batch input file)
+ *
+ * @property custom_id Identifier of the request (hash of the language model input)
+ * @property method HTTP method of the request
+ * @property url Relative URL of the API endpoint
+ * @property body Body of the request (the same as for a standard API call)
+ *
+ * @see https://platform.openai.com/docs/guides/batch
+ */
+interface BatchRequest {
+  custom_id: string
+
+  method: "POST"
+
+  url: "/v1/chat/completions"
+
+  body: ChatCompletionCreateParamsNonStreaming
+}
+
+/**
+ * Interface for typing a part of the batch job (a single batch in OpenAI API)
+ *
+ * @property inputFile Path to the local file with requests (JSONL)
+ * @property requestCount Number of requests in the input file
+ * @property estimatedCost Estimated maximal cost of the requests in USD
+ * @property inputFileId Identifier of the uploaded input file (set after upload)
+ * @property batchId Identifier of the batch (set after its creation)
+ * @property processed Were results of the batch already saved?
+ */
+interface BatchJobPart {
+  inputFile: string
+
+  requestCount: number
+
+  estimatedCost: number
+
+  inputFileId?: string
+
+  batchId?: string
+
+  processed: boolean
+}
+
+/**
+ * Interface for typing the state of the batch job (stored in the job file)
+ *
+ * @property timestamp Timestamp of the while, when the state was saved
+ * @property sourceChecksum Checksum of the source the candidates were taken from
+ * @property parts Parts of the job (each with its own batch)
+ */
+interface BatchJobState {
+  timestamp: number
+
+  sourceChecksum: string
+
+  parts: BatchJobPart[]
+}
+
+/**
+ * Interface for typing a single line of the batch output file
+ *
+ * The same format is used for lines of the batch error file.
+ *
+ * @property custom_id Identifier of the request
+ * @property response Response to the request (null if the request failed)
+ * @property response.status_code HTTP status code of the response
+ * @property response.body Body of the response (chat completion if successful)
+ * @property error Error of the request (null if it didn't fail before getting the response)
+ */
+interface BatchOutputLine {
+  custom_id: string
+
+  response: {
+    status_code: number
+
+    body: ChatCompletion
+  } | null
+
+  error?: { code: string; message: string } | null
+}
+
+/**
+ * Scorer of quotes using the batch API of OpenAI
+ *
+ * All quote candidates are sent to the language model at once as a batch job,
+ * which is much cheaper than standard API calls (but it could take up to
+ * 24 hours). Results are saved into the AI cache, from which they are taken
+ * by the quote parser afterward.
+ *
+ * State of the job is stored in a job file, so an interrupted job could be
+ * resumed (already submitted batches aren't submitted again).
+ *
+ * Batch jobs are supported only by OpenAI API, so the language model must
+ * be accessed through it.
+ *
+ * Estimated cost of each batch is reserved in the budget of the run before
+ * the batch is submitted. Already submitted batches are always finished, as
+ * they are paid anyway.
+ */
+@Service()
+export class QuoteBatchScorer {
+  /**
+   * Maximum number of requests in a single batch (limit of OpenAI API)
+   */
+  private readonly MAX_REQUESTS_PER_BATCH = 50_000
+  /**
+   * Maximum size of the batch input file in bytes
+   *
+   * OpenAI API allows 200 MB, so there is a reserve for the last request.
+   */
+  private readonly MAX_INPUT_FILE_SIZE = 190 * 1024 * 1024
+  /**
+   * Delay between checks of the batch status (in milliseconds)
+   */
+  private readonly POLL_INTERVAL = 60_000
+
+  /**
+   * Constructor for QuoteBatchScorer
+   *
+   * @param languageModelProvider Language model provider (dependency)
+   * @param quoteParser Quote parser (dependency)
+   * @param usageTracker Usage tracker (dependency)
+   */
+  public constructor(
+    private readonly languageModelProvider: LanguageModelProvider,
+    private readonly quoteParser: QuoteParser,
+    private readonly usageTracker: UsageTracker,
+  ) {}
+
+  /**
+   * Scores quote candidates in a batch job and saves the results into the AI cache
+   *
+   * If the job file exists, the job is resumed from its state, and candidates
+   * aren't collected again. Job files are removed after all results are saved.
+   * Candidates, which couldn't be scored in the batch job (failed requests,
+   * expired batches), stay unscored and are scored one by one later.
+   *
+   * @param jobPath Path to the job file (input files are stored next to it)
+   * @param sourceChecksum Checksum of the source of candidates (for detecting changes before resuming)
+   * @param collectCandidates Function returning quote candidates to score
+   * @throws Error If the language model isn't accessed through OpenAI API
+   * @throws Error If the job file belongs to a different source
+   * @throws BudgetExceededError If the next batch would exceed the budget of the run (the job could be resumed later)
+   */
+  public async score(
+    jobPath: string,
+    sourceChecksum: string,
+    collectCandidates: () => AsyncIterable<QuoteCandidate>,
+  ): Promise<void> {
+    const languageModel = this.languageModelProvider.provide()
+    if (!(languageModel instanceof OpenAiLanguageModel)) {
+      throw new Error(
+        `Batch jobs aren't supported by language model ${languageModel.modelName}, use OpenAI API instead`,
+      )
+    }
+
+    let state
+    if (existsSync(jobPath)) {
+      console.log(`[INFO] Resuming batch job ${jobPath}...`)
+
+      state = JSON.parse(readFileSync(jobPath, "utf-8")) as BatchJobState
+      if (state.sourceChecksum !== sourceChecksum) {
+        throw new Error(
+          `Batch job ${jobPath} was created for a different source. Please remove the job file and its input files and start over.`,
+        )
+      }
+    } else {
+      console.log(`[INFO] Collecting quote candidates for batch job...`)
+
+      state = await this.prepareJob(
+        jobPath,
+        sourceChecksum,
+        collectCandidates(),
+        languageModel,
+      )
+      this.saveState(jobPath, state)
+    }
+
+    for (const part of state.parts) {
+      if (part.processed) {
+        continue
+      }
+
+      const reservedCost = part.batchId === undefined ? part.estimatedCost : 0
+      this.usageTracker.reserve(reservedCost)
+      try {
+        // Each step is saved immediately, so nothing is submitted twice
+        part.inputFileId ??= (
+          await languageModel.client.files.create({
+            file: createReadStream(part.inputFile),
+            purpose: "batch",
+          })
+        ).id
+        this.saveState(jobPath, state)
+
+        part.batchId ??= (
+          await languageModel.client.batches.create({
+            input_file_id: part.inputFileId,
+            endpoint: "/v1/chat/completions",
+            completion_window: "24h",
+          })
+        ).id
+        this.saveState(jobPath, state)
+
+        const batch = await this.waitForBatch(part.batchId, languageModel)
+        await this.saveResults(batch, part, languageModel)
+      } finally {
+        this.usageTracker.release(reservedCost)
+      }
+
+      part.processed = true
+      this.saveState(jobPath, state)
+    }
+
+    // The job is finished, so its files aren't needed anymore
+    for (const part of state.parts) {
+      unlinkSync(part.inputFile)
+    }
+    unlinkSync(jobPath)
+  }
+
+  /**
+   * Prepares the batch job by writing requests for candidates into input files
+   *
+   * Candidates are written one by one, so they don't need to fit into memory.
+   * Duplicate candidates (e.g., the same quote on multiple pages) and ones that
+   * don't need to be scored get no request.
+   *
+   * @param jobPath Path to the job file
+   * @param sourceChecksum Checksum of the source of candidates
+   * @param candidates Quote candidates to score
+   * @param languageModel Language model accessed through OpenAI API
+   * @returns State of the newly prepared job
+   */
+  private async prepareJob(
+    jobPath: string,
+    sourceChecksum: string,
+    candidates: AsyncIterable<QuoteCandidate>,
+    languageModel: OpenAiLanguageModel,
+  ): Promise<BatchJobState> {
+    const state: BatchJobState = {
+      timestamp: Date.now(),
+      sourceChecksum: sourceChecksum,
+      parts: [],
+    }
+
+    const requestIds = new Set<string>()
+    let current: { part: BatchJobPart; stream: WriteStream } | null = null
+    for await (const candidate of candidates) {
+      const scoringRequest = await this.quoteParser.composeScoringRequest(
+        candidate.author,
+        candidate.quote,
+      )
+      if (scoringRequest === null || requestIds.has(scoringRequest.inputHash)) {
+        continue
+      }
+      requestIds.add(scoringRequest.inputHash)
+
+      const request: BatchRequest = {
+        custom_id: scoringRequest.inputHash,
+        method: "POST",
+        url: "/v1/chat/completions",
+        body: languageModel.composeChatCompletion(scoringRequest.request),
+      }
+
+      // Start a new part if the current one is full
+      if (
+        current !== null &&
+        (current.part.requestCount >= this.MAX_REQUESTS_PER_BATCH ||
+          current.stream.bytesWritten >= this.MAX_INPUT_FILE_SIZE)
+      ) {
+        await this.closeStream(current.stream)
+        current = null
+      }
+      if (current === null) {
+        const part = {
+          inputFile: `${jobPath}-${String(state.parts.length + 1)}.jsonl`,
+          requestCount: 0,
+          estimatedCost: 0,
+          processed: false,
+        }
+        state.parts.push(part)
+        current = { part: part, stream: createWriteStream(part.inputFile) }
+      }
+
+      // Respect backpressure, so the requests don't pile up in memory
+      if (!current.stream.write(`${JSON.stringify(request)}\n`)) {
+        await once(current.stream, "drain")
+      }
+      current.part.requestCount++
+      current.part.estimatedCost += this.usageTracker.estimateCost(
+        languageModel.modelName,
+        scoringRequest.request,
+        true,
+      )
+    }
+
+    if (current !== null) {
+      await this.closeStream(current.stream)
+    }
+
+    console.log(
+      `[INFO] Prepared batch job with ${String(requestIds.size)} requests in ${String(state.parts.length)} batches`,
+    )
+
+    return state
+  }
+
+  /**
+   * Waits until the batch reaches its final state
+   *
+   * @param batchId Identifier of the batch
+   * @param languageModel Language model accessed through OpenAI API
+   * @returns Batch in its final state
+   */
+  private async waitForBatch(
+    batchId: string,
+    languageModel: OpenAiLanguageModel,
+  ): Promise<Batch> {
+    for (;;) {
+      const batch = await languageModel.client.batches.retrieve(batchId)
+      if (
+        ["completed", "failed", "expired", "cancelled"].includes(batch.status)
+      ) {
+        return batch
+      }
+
+      console.log(
+        `[INFO] Batch ${batchId} is ${batch.status} (${String(batch.request_counts?.completed ?? 0)} of ${String(batch.request_counts?.total ?? 0)} requests completed)...`,
+      )
+
+      await new Promise((resolve) => setTimeout(resolve, this.POLL_INTERVAL))
+    }
+  }
+
+  /**
+   * Saves results of the finished batch into the AI cache
+   *
+   * @param batch Batch in its final state
+   * @param part Part of the job the batch belongs to
+   * @param languageModel Language model accessed through OpenAI API
+   */
+  private async saveResults(
+    batch: Batch,
+    part: BatchJobPart,
+    languageModel: OpenAiLanguageModel,
+  ): Promise<void> {
+    if (batch.status !== "completed") {
+      console.log(
+        `[WARNING] Batch ${batch.id} ended as ${batch.status}. Its unfinished quote candidates will be scored one by one.`,
+      )
+    }
+
+    // Expired and cancelled batches could have results of some requests (the
+    // API returns null for missing files, although they are typed as optional)
+    let savedResults = 0
+    let invalidResults = 0
+    if (batch.output_file_id) {
+      for await (const line of this.readFileLines(
+        batch.output_file_id,
+        languageModel,
+      )) {
+        const output = JSON.parse(line) as BatchOutputLine
+        if (output.response?.status_code !== 200) {
+          continue
+        }
+
+        try {
+          await this.quoteParser.saveScoringResponse(
+            output.custom_id,
+            languageModel.parseChatCompletion(output.response.body),
+          )
+          savedResults++
+        } catch (error) {
+          // Invalid responses usually have the same problem, so only the first
+          // one is shown
+          if (invalidResults === 0) {
+            console.error(error)
+          }
+          invalidResults++
+        }
+      }
+    }
+
+    if (invalidResults > 0) {
+      console.log(
+        `[WARNING] ${String(invalidResults)} responses of batch ${batch.id} were invalid. Their quote candidates will be scored one by one.`,
+      )
+    }
+    const failedRequests = part.requestCount - savedResults - invalidResults
+    if (failedRequests > 0) {
+      console.log(
+        `[WARNING] ${String(failedRequests)} requests of batch ${batch.id} failed. Their quote candidates will be scored one by one.`,
+      )
+    }
+    if (batch.error_file_id) {
+      for await (const line of this.readFileLines(
+        batch.error_file_id,
+        languageModel,
+      )) {
+        // Failed requests usually fail for the same reason, so only the first
+        // error is shown
+        const output = JSON.parse(line) as BatchOutputLine
+        console.log(
+          `[WARNING] Request ${output.custom_id} of batch ${batch.id} failed: ${output.error?.message ?? JSON.stringify(output.response?.body)}`,
+        )
+        break
+      }
+    }
+    console.log(
+      `[INFO] Saved ${String(savedResults)} results of batch ${batch.id}`,
+    )
+  }
+
+  /**
+   * Reads non-empty lines of the file stored in OpenAI API
+   *
+   * The file is read as a stream, so it doesn't need to fit into memory
+   * (output files of batches could have hundreds of megabytes).
+   *
+   * @param fileId Identifier of the file
+   * @param languageModel Language model accessed through OpenAI API
+   * @returns Asynchronous iterator over lines of the file
+   */
+  private async *readFileLines(
+    fileId: string,
+    languageModel: OpenAiLanguageModel,
+  ): AsyncGenerator<string> {
+    const content = await languageModel.client.files.content(fileId)
+    const lines = createInterface({ input: content.body, crlfDelay: Infinity })
+
+    for await (const line of lines) {
+      if (line.trim() !== "") {
+        yield line
+      }
+    }
+  }
+
+  /**
+   * Saves the state of the job into the job file
+   *
+   * @param jobPath Path to the job file
+   * @param state State of the job
+   */
+  private saveState(jobPath: string, state: BatchJobState): void {
+    state.timestamp = Date.now()
+    writeFileSync(jobPath, JSON.stringify(state))
+  }
+
+  /**
+   * Closes the write stream and waits until all data are written
+   *
+   * @param stream Stream to close
+   */
+  private async closeStream(stream: WriteStream): Promise<void> {
+    stream.end()
+    await finished(stream)
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+
+import { AiCacheService, CachedPrompt } from "../../services"
+
+import {
+  LanguageModelOutputSchema,
+  LanguageModelRequest,
+} from "./languageModel"
+import { StructuredOutputClient } from "./structuredOutput.client"
+
+/**
+ * Interface for typing the response from the AI model
+ *
+ * @property isTranslated Language model's decision if any candidate is a translation of the quote
+ * @property candidateNumber Number of the matching candidate (if isTranslated is false, this should be 0)
+ */
+interface AiResponse {
+  isTranslated: boolean
+
+  candidateNumber: number
+}
+
+/**
+ * Class for finding translations of quotes into other languages using AI
+ */
+@Service()
+export class QuoteTranslationParser {
+  /**
+   * Version of the prompt (system message and response format)
+   *
+   * Responses are cached for each version, so it must be increased with every
+   * change of the prompt, otherwise responses of the old prompt would be used.
+   */
+  private readonly PROMPT_VERSION = 1
+  /**
+   * Maximum number of output (and possibly reasoning) tokens for the language model
+   */
+  private readonly MAX_TOKENS = 32
+  /**
+   * JSON schema of the language model output
+   */
+  private readonly OUTPUT_SCHEMA: LanguageModelOutputSchema = {
+    schemaName: "quote_translation",
+    schema: {
+      type: "object",
+      required: ["isTranslated", "candidateNumber"],
+      properties: {
+        isTranslated: {
+          type: "boolean",
+          description:
+            "Indicates if any candidate is a translation of the quote.",
+        },
+        candidateNumber: {
+          type: "integer",
+          description:
+            "The number of the candidate, which is a translation of the quote, or 0 if there is none.",
+        },
+      },
+      additionalProperties: false,
+    },
+  }
+
+  /**
+   * Identification of the prompt for caching responses
+   */
+  private readonly cachedPrompt: CachedPrompt
+
+  /**
+   * Constructor for the QuoteTranslationParser
+   *
+   * @param structuredOutputClient Structured output client (dependency)
+   * @param aiCacheService AI cache service (dependency)
+   */
+  public constructor(
+    private readonly structuredOutputClient: StructuredOutputClient,
+    private readonly aiCacheService: AiCacheService,
+  ) {
+    this.cachedPrompt = {
+      modelName: structuredOutputClient.modelName,
+      promptName: "quoteTranslation",
+      promptVersion: this.PROMPT_VERSION,
+    }
+  }
+
+  /**
+   * Finds the translation of the quote among candidates using AI
+   *
+   * Candidates should be quotes of the same author in a single other language.
+   * A candidate is a translation, if it expresses the same thought (not only
+   * the same topic), free translations and abbreviated versions are accepted.
+   *
+   * @param author The author of the quotes
+   * @param quote The quote to find the translation of
+   * @param candidates Quotes in another language (candidates for the translation)
+   * @returns Index of the candidate, which is the translation, or null if there is none
+   * @throws LanguageModelError If no valid response arrived from the language model
+   */
+  public async findTranslation(
+    author: string,
+    quote: string,
+    candidates: string[],
+  ): Promise<number | null> {
+    if (candidates.length === 0) {
+      return null
+    }
+
+    // The same candidates could be already compared (e.g., in the previous
+    // run), so the cached response is used instead of calling the language model
+    const input = this.composeInput(author, quote, candidates)
+    let parsedResponse: AiResponse | undefined
+    try {
+      parsedResponse = JSON.parse(
+        await this.aiCacheService.fetchResponse(this.cachedPrompt, input),
+      ) as AiResponse
+    } catch {
+      // The candidates weren't compared yet
+    }
+
+    if (parsedResponse === undefined) {
+      // Retries of failed requests are handled by the client
+      const result = await this.structuredOutputClient.generate<AiResponse>(
+        this.composeRequest(input),
+        this.cachedPrompt.promptName,
+      )
+      // The response is tiny, so a truncated one is just considered negative
+      parsedResponse = result.output ?? {
+        isTranslated: false,
+        candidateNumber: 0,
+      }
+
+      await this.aiCacheService.saveResponse(
+        this.cachedPrompt,
+        input,
+        JSON.stringify(parsedResponse),
+      )
+    }
+
+    // Numbers out of range are hallucinations, so they are ignored
+    const index = parsedResponse.candidateNumber - 1
+    if (
+      !parsedResponse.isTranslated ||
+      index < 0 ||
+      index >= candidates.length
+    ) {
+      return null
+    }
+
+    return index
+  }
+
+  /**
+   * Composes the input for the language model
+   *
+   * @param author The author of the quotes
+   * @param quote The quote to find the translation of
+   * @param candidates Quotes in another language (candidates for the translation)
+   * @returns Input text for the language model
+   */
+  private composeInput(
+    author: string,
+    quote: string,
+    candidates: string[],
+  ): string {
+    const numberedCandidates = candidates.map(
+      (candidate, index) => `${String(index + 1)}. "${candidate}"`,
+    )
+
+    return `${author}: "${quote}"\n\nCandidates:\n${numberedCandidates.join("\n")}`
+  }
+
+  /**
+   * Composes the request for finding the translation
+   *
+   * @param input Input text for the language model (see composeInput())
+   * @returns Request for the language model
+   */
+  private composeRequest(input: string): LanguageModelRequest {
+    return {
+      messages: [
+        {
+          role: "system",
+          content:
+            'You are a professional international linguist focused on quotes. You will get a quote of a person and a numbered list of candidates, which are quotes of the same person in another language. You aim to decide whether any candidate is a translation of the quote. A candidate is a translation if it expresses the same thought as the quote, even if it is a free translation or a shortened version of the quote. A candidate about the same topic, but with a different thought, is not a translation.\n\nConstruct output as a JSON object with these two properties:\n- isTranslated—boolean, which is set to true if any candidate is a translation of the quote.\n- candidateNumber—integer, which is set to the number of the candidate, which is a translation of the quote, or 0 if isTranslated is false.\n\nHere is an example of an input with a translation:\n<input>\nWinston Churchill: "Úspěch není konečný, neúspěch není fatální: počítá se odvaha pokračovat."\n\nCandidates:\n1. "We shall fight on the beaches."\n2. "Success is not final, failure is not fatal: it is the courage to continue that counts."\n</input>\n<output>\n{"isTranslated":true,"candidateNumber":2}\n</output>\n\nWhen no candidate is a translation, the output looks like this:\n<input>\nAlbert Einstein: "Fantazie je důležitější než vědění."\n\nCandidates:\n1. "God does not play dice with the universe."\n</input>\n<output>\n{"isTranslated":false,"candidateNumber":0}\n</output>',
+        },
+        {
+          role: "user",
+          content: input,
+        },
+      ],
+      ...this.OUTPUT_SCHEMA,
+      maxTokens: this.MAX_TOKENS,
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions/completions"
+import { Service } from "typedi"
+
+/**
+ * Interface for typing the state of a single rate limit
+ *
+ * @property limit Maximum value of the limit (Infinity until it's known)
+ * @property remaining Remaining value before the limit is reached
+ * @property resetAt Time (in milliseconds), when the limit is reset to its maximum
+ */
+interface LimitState {
+  limit: number
+
+  remaining: number
+
+  resetAt: number
+}
+
+/**
+ * Rate limiter for the OpenAI API respecting requests and tokens per minute limits
+ *
+ * Limits aren't configured, they're learned from x-ratelimit-* headers of API
+ * responses. Until the first response arrives, requests aren't limited. The
+ * limiter is shared by all parsers (as they use the same API key), so
+ * concurrently running requests don't exceed the limits together.
+ *
+ * @see https://platform.openai.com/docs/guides/rate-limits#rate-limits-in-headers
+ */
+@Service()
+export class RateLimiter {
+  /**
+   * Minimal delay between checks of the limits while waiting (in milliseconds)
+   */
+  private readonly MIN_DELAY = 100
+  /**
+   * Length of the window the limits are counted in (in milliseconds)
+   */
+  private readonly WINDOW = 60_000
+
+  /**
+   * State of the requests per minute limit
+   */
+  private readonly requests: LimitState = {
+    limit: Infinity,
+    remaining: Infinity,
+    resetAt: 0,
+  }
+  /**
+   * State of the tokens per minute limit
+   */
+  private readonly tokens: LimitState = {
+    limit: Infinity,
+    remaining: Infinity,
+    resetAt: 0,
+  }
+
+  /**
+   * Waits until a request with the estimated number of tokens could be sent
+   *
+   * The request and its tokens are reserved immediately, so other concurrent
+   * callers have to wait for the next free capacity.
+   *
+   * @param estimatedTokens Estimated number of tokens of the request (see estimateTokens())
+   */
+  public async acquire(estimatedTokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now()
+      this.restoreIfReset(this.requests, now)
+      this.restoreIfReset(this.tokens, now)
+
+      // A request larger than the whole limit could be sent only with
+      // the full capacity (otherwise it would wait forever)
+      const neededTokens = Math.min(estimatedTokens, this.tokens.limit)
+      const hasRequests = this.requests.remaining >= 1
+      const hasTokens = this.tokens.remaining >= neededTokens
+      if (hasRequests && hasTokens) {
+        this.requests.remaining--
+        this.tokens.remaining -= neededTokens
+
+        return
+      }
+
+      const waitUntil = Math.max(
+        hasRequests ? 0 : this.requests.resetAt,
+        hasTokens ? 0 : this.tokens.resetAt,
+      )
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.max(waitUntil - now, this.MIN_DELAY)),
+      )
+    }
+  }
+
+  /**
+   * Updates the limits according to headers of the API response
+   *
+   * Both successful and failed (e.g., 429 Too Many Requests) responses carry
+   * the headers, so they should be used for both of them.
+   *
+   * @param headers Headers of the API response (with lowercase names)
+   */
+  public update(headers: Record<string, string | null | undefined>): void {
+    const now = Date.now()
+    this.updateLimit(this.requests, headers, "requests", now)
+    this.updateLimit(this.tokens, headers, "tokens", now)
+  }
+
+  /**
+   * Estimates the number of tokens the API counts for the request
+   *
+   * The API counts input tokens (roughly 4 characters per token) together
+   * with the maximum number of output tokens.
+   *
+   * @param request Parameters of the chat completion API call
+   * @returns Estimated number of tokens
+   */
+  public estimateTokens(
+    request: ChatCompletionCreateParamsNonStreaming,
+  ): number {
+    return (
+      Math.ceil(JSON.stringify(request.messages).length / 4) +
+      (request.max_completion_tokens ?? 0)
+    )
+  }
+
+  /**
+   * Updates a single limit according to its headers
+   *
+   * @param state State of the limit
+   * @param headers Headers of the API response
+   * @param name Name of the limit in headers ("requests" or "tokens")
+   * @param now Current time (in milliseconds)
+   */
+  private updateLimit(
+    state: LimitState,
+    headers: Record<string, string | null | undefined>,
+    name: string,
+    now: number,
+  ): void {
+    const limit = headers[`x-ratelimit-limit-${name}`]
+    const remaining = headers[`x-ratelimit-remaining-${name}`]
+    const reset = headers[`x-ratelimit-reset-${name}`]
+
+    if (limit) {
+      state.limit = parseInt(limit)
+    }
+    if (remaining) {
+      // Requests reserved by concurrent callers aren't in the header yet
+      state.remaining = Math.min(state.remaining, parseInt(remaining))
+    }
+    if (reset) {
+      state.resetAt = now + this.parseDuration(reset)
+    }
+  }
+
+  /**
+   * Restores the limit to its maximum if its reset time has passed
+   *
+   * The next reset is expected after a whole window, unless headers of the
+   * next response say otherwise.
+   *
+   * @param state State of the limit
+   * @param now Current time (in milliseconds)
+   */
+  private restoreIfReset(state: LimitState, now: number): void {
+    if (state.resetAt <= now) {
+      state.remaining = state.limit
+      state.resetAt = now + this.WINDOW
+    }
+  }
+
+  /**
+   * Parses the duration from the reset header
+   *
+   * @param duration Duration in the API format (e.g., "1s", "6m0s", "20ms")
+   * @returns Duration in milliseconds
+   */
+  private parseDuration(duration: string): number {
+    const multipliers: Record<string, number> = {
+      h: 3_600_000,
+      m: 60_000,
+      s: 1_000,
+      ms: 1,
+    }
+
+    let milliseconds = 0
+    for (const [, value, unit] of duration.matchAll(
+      /(\d+(?:\.\d+)?)(ms|h|m|s)/g,
+    )) {
+      milliseconds += parseFloat(value) * multipliers[unit]
+    }
+
+    return Math.ceil(milliseconds)
+  }
+}
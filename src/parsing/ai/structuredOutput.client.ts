@@ -0,0 +1,236 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import Ajv, { ValidateFunction } from "ajv"
+import { Service } from "typedi"
+
+import { LanguageModelError } from "../errors/languageModel.error"
+
+import {
+  LanguageModel,
+  LanguageModelOutputSchema,
+  LanguageModelRequest,
+  LanguageModelResponse,
+} from "./languageModel"
+import { LanguageModelProvider } from "./languageModel.provider"
+import { UsageTracker } from "./usage.tracker"
+
+/**
+ * Structured output of the language model
+ *
+ * @property output Output validated against the JSON schema (null if the response was truncated)
+ * @property truncated Was the response cut off due to reaching the maximum number of tokens?
+ */
+export interface StructuredOutput<T> {
+  output: T | null
+
+  truncated: boolean
+}
+
+/**
+ * Result of the request for a structured output
+ *
+ * @property attempts Number of attempts needed to get the output (from 1)
+ */
+export interface StructuredOutputResult<T> extends StructuredOutput<T> {
+  attempts: number
+}
+
+/**
+ * Client for getting structured outputs (JSON objects) from the language model
+ *
+ * Outputs are validated against the JSON schema of the request at runtime,
+ * as not all backends guarantee the schema is followed. Temporary errors
+ * (rate limiting, server errors, invalid outputs) are retried with increasing
+ * delay (or the delay requested by the backend), fatal ones are thrown
+ * immediately. Usage of all responses (even the invalid ones) is recorded,
+ * and the estimated cost is reserved in the budget before sending the request.
+ */
+@Service()
+export class StructuredOutputClient {
+  /**
+   * Maximum number of attempts for a single request
+   *
+   * The delay between attempts is increasing (quadratic) to avoid overwhelming
+   * the server and getting blocked by rate limiting.
+   */
+  private readonly MAX_ATTEMPTS = 3
+
+  /**
+   * Language model used for generating outputs
+   */
+  private readonly languageModel: LanguageModel
+  /**
+   * JSON schema validator
+   */
+  private readonly ajv = new Ajv()
+  /**
+   * Compiled validators of JSON schemas by their names
+   */
+  private readonly validators = new Map<string, ValidateFunction>()
+
+  /**
+   * Constructor for StructuredOutputClient
+   *
+   * @param languageModelProvider Language model provider (dependency)
+   * @param usageTracker Usage tracker (dependency)
+   */
+  public constructor(
+    languageModelProvider: LanguageModelProvider,
+    private readonly usageTracker: UsageTracker,
+  ) {
+    this.languageModel = languageModelProvider.provide()
+  }
+
+  /**
+   * Name of the used language model (for identification of cached responses)
+   */
+  public get modelName(): string {
+    return this.languageModel.modelName
+  }
+
+  /**
+   * Lets the language model generate a structured output for the request
+   *
+   * @param request Request for the language model
+   * @param promptName Name of the prompt (for usage accounting)
+   * @returns Result with the validated output and number of attempts
+   * @throws LanguageModelError If the error is fatal or all attempts failed
+   * @throws BudgetExceededError If the request would exceed the budget of the run
+   */
+  public async generate<T>(
+    request: LanguageModelRequest,
+    promptName: string,
+  ): Promise<StructuredOutputResult<T>> {
+    // All attempts are covered by the reservation, as the spent cost grows with them
+    const estimatedCost = this.usageTracker.estimateCost(
+      this.modelName,
+      request,
+    )
+    this.usageTracker.reserve(estimatedCost)
+
+    try {
+      return await this.generateWithRetries<T>(request, promptName)
+    } finally {
+      this.usageTracker.release(estimatedCost)
+    }
+  }
+
+  /**
+   * Lets the language model generate a structured output, retrying temporary errors
+   *
+   * @param request Request for the language model
+   * @param promptName Name of the prompt (for usage accounting)
+   * @returns Result with the validated output and number of attempts
+   * @throws LanguageModelError If the error is fatal or all attempts failed
+   */
+  private async generateWithRetries<T>(
+    request: LanguageModelRequest,
+    promptName: string,
+  ): Promise<StructuredOutputResult<T>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.languageModel.complete(request)
+        this.usageTracker.record(promptName, this.modelName, response.usage)
+
+        return {
+          ...this.parseResponse<T>(request, response),
+          attempts: attempt,
+        }
+      } catch (error) {
+        // Unknown errors are bugs, so there is no reason to retry them
+        const languageModelError =
+          error instanceof LanguageModelError
+            ? error
+            : new LanguageModelError(String(error), false, null, error)
+
+        if (!languageModelError.retryable) {
+          throw languageModelError
+        } else if (attempt >= this.MAX_ATTEMPTS) {
+          throw new LanguageModelError(
+            `No valid response arrived from language model after ${String(attempt)} attempts. Last error: ${languageModelError.message}`,
+            true,
+            languageModelError.retryAfter,
+            languageModelError,
+          )
+        }
+
+        // d = a^2 seconds (d = delay, a = attempt number indexed from 1)
+        // Source: https://stackoverflow.com/a/49139664
+        const delay = languageModelError.retryAfter ?? 1000 * attempt ** 2
+        console.log(
+          `[WARNING] Attempt ${String(attempt)} of ${String(this.MAX_ATTEMPTS)} to get response from language model failed: ${languageModelError.message}. Retrying in ${String(delay)} ms...`,
+        )
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  /**
+   * Parses the response of the language model and validates it
+   *
+   * @param outputSchema JSON schema of the output (e.g., the request the response belongs to)
+   * @param response Response of the language model
+   * @returns Validated output
+   * @throws LanguageModelError If the response is missing or doesn't match the schema (retryable)
+   */
+  public parseResponse<T>(
+    outputSchema: LanguageModelOutputSchema,
+    response: LanguageModelResponse,
+  ): StructuredOutput<T> {
+    // Truncated responses aren't valid JSON objects, so the caller decides
+    // what to do with them
+    if (response.truncated) {
+      return { output: null, truncated: true }
+    }
+
+    if (response.content === null) {
+      throw new LanguageModelError(
+        "No text response arrived from language model",
+        true,
+      )
+    }
+
+    let output: unknown
+    try {
+      output = JSON.parse(response.content)
+    } catch (error) {
+      throw new LanguageModelError(
+        `Response of language model isn't valid JSON: ${response.content}`,
+        true,
+        null,
+        error,
+      )
+    }
+
+    const validate = this.getValidator(outputSchema)
+    if (!validate(output)) {
+      throw new LanguageModelError(
+        `Response of language model doesn't match schema ${outputSchema.schemaName}: ${this.ajv.errorsText(validate.errors)}`,
+        true,
+      )
+    }
+
+    return { output: output as T, truncated: false }
+  }
+
+  /**
+   * Returns the (cached) validator of the JSON schema
+   *
+   * @param outputSchema JSON schema of the output
+   * @returns Compiled validator
+   */
+  private getValidator(
+    outputSchema: LanguageModelOutputSchema,
+  ): ValidateFunction {
+    let validate = this.validators.get(outputSchema.schemaName)
+    if (validate === undefined) {
+      validate = this.ajv.compile(outputSchema.schema)
+      this.validators.set(outputSchema.schemaName, validate)
+    }
+
+    return validate
+  }
+}
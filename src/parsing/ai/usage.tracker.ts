@@ -0,0 +1,341 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { readFileSync } from "node:fs"
+import { Service } from "typedi"
+
+import { ConfigProvider } from "../../providers"
+
+import { BudgetExceededError } from "../errors/budgetExceeded.error"
+
+import { LanguageModelRequest, LanguageModelUsage } from "./languageModel"
+
+/**
+ * Usage of language models (aggregated over multiple requests)
+ *
+ * @property requests Number of requests
+ * @property inputTokens Number of input (prompt) tokens
+ * @property outputTokens Number of output (completion) tokens
+ * @property cost Cost of the requests in USD
+ */
+export interface TokenUsage {
+  requests: number
+
+  inputTokens: number
+
+  outputTokens: number
+
+  cost: number
+}
+
+/**
+ * Summary of language model usage during a run (e.g., processing of a wiki dump)
+ *
+ * @property total Usage of the whole run
+ * @property byParser Usage by parsers (prompt names)
+ * @property byPage Usage by pages (page titles), only pages with some requests are included
+ */
+export interface UsageSummary {
+  total: TokenUsage
+
+  byParser: Record<string, TokenUsage>
+
+  byPage: Record<string, TokenUsage>
+}
+
+/**
+ * Price of a language model
+ *
+ * @property input Price of input tokens in USD per 1M tokens
+ * @property output Price of output tokens in USD per 1M tokens
+ */
+export interface ModelPrice {
+  input: number
+
+  output: number
+}
+
+/**
+ * Prices of known language models (could be extended or overridden by a price file)
+ *
+ * @see https://openai.com/api/pricing/
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+}
+
+/**
+ * Tracker of language model usage and its costs
+ *
+ * Usage is aggregated for the whole run, by parsers and by pages. Pages are
+ * processed concurrently, so the page of a request is determined from its
+ * asynchronous context (see trackPage()).
+ *
+ * The run could have a budget. Costs of requests are estimated (pessimistically)
+ * and reserved before they are sent, so the budget can't be exceeded even by
+ * concurrently running requests.
+ */
+@Service()
+export class UsageTracker {
+  /**
+   * Multiplier of prices for requests processed in batch jobs
+   */
+  private readonly BATCH_DISCOUNT = 0.5
+
+  /**
+   * Prices of language models by their names
+   */
+  private readonly prices: Record<string, ModelPrice>
+  /**
+   * Usage of the page processed in the current asynchronous context
+   */
+  private readonly pageUsage = new AsyncLocalStorage<TokenUsage>()
+  /**
+   * Names of models without a price (reported only once)
+   */
+  private readonly unknownModels = new Set<string>()
+
+  /**
+   * Summary of the current run
+   */
+  private summary: UsageSummary = this.createSummary()
+  /**
+   * Budget of the current run in USD (null for unlimited)
+   */
+  private budget: number | null = null
+  /**
+   * Estimated cost of running requests in USD
+   */
+  private reservedCost = 0
+
+  /**
+   * Constructor for UsageTracker
+   *
+   * @param configProvider Config provider (dependency)
+   */
+  public constructor(configProvider: ConfigProvider) {
+    const pricesPath = configProvider.provideAiApiConfig().pricesPath
+
+    this.prices = {
+      ...DEFAULT_PRICES,
+      ...(pricesPath === undefined
+        ? {}
+        : (JSON.parse(readFileSync(pricesPath, "utf-8")) as Record<
+            string,
+            ModelPrice
+          >)),
+    }
+  }
+
+  /**
+   * Starts a new run (resets the usage aggregated so far)
+   *
+   * @param budget Budget of the run in USD (null for unlimited)
+   */
+  public startRun(budget: number | null): void {
+    this.summary = this.createSummary()
+    this.budget = budget
+    this.reservedCost = 0
+  }
+
+  /**
+   * Returns the summary of the current run
+   *
+   * @returns Summary of language model usage
+   */
+  public summarizeRun(): UsageSummary {
+    return this.summary
+  }
+
+  /**
+   * Runs the function with usage of all its requests assigned to the page
+   *
+   * @param pageTitle Title of the page
+   * @param callback Function processing the page
+   * @returns Return value of the function
+   */
+  public async trackPage<T>(
+    pageTitle: string,
+    callback: () => Promise<T>,
+  ): Promise<T> {
+    const summary = this.summary
+    const usage = this.createUsage()
+    summary.byPage[pageTitle] = usage
+
+    try {
+      return await this.pageUsage.run(usage, callback)
+    } finally {
+      // Most pages are unchanged (or fully cached), so they aren't kept
+      if (usage.requests === 0) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete summary.byPage[pageTitle]
+      }
+    }
+  }
+
+  /**
+   * Returns usage of the page processed in the current asynchronous context
+   *
+   * @returns Usage of the page or null if no page is being processed
+   */
+  public currentPageUsage(): TokenUsage | null {
+    return this.pageUsage.getStore() ?? null
+  }
+
+  /**
+   * Estimates the maximal token usage of the request
+   *
+   * Input tokens are estimated from the length of messages (roughly 4
+   * characters per token), output tokens are expected to reach the maximum.
+   *
+   * @param request Request for the language model
+   * @returns Estimated token usage
+   */
+  public estimateUsage(request: LanguageModelRequest): LanguageModelUsage {
+    return {
+      inputTokens: Math.ceil(JSON.stringify(request.messages).length / 4),
+      outputTokens: request.maxTokens,
+    }
+  }
+
+  /**
+   * Estimates the maximal cost of the request
+   *
+   * @param modelName Name of the language model
+   * @param request Request for the language model
+   * @param batch Will the request be processed in a batch job?
+   * @returns Estimated cost in USD
+   */
+  public estimateCost(
+    modelName: string,
+    request: LanguageModelRequest,
+    batch = false,
+  ): number {
+    return this.computeCost(modelName, this.estimateUsage(request), batch)
+  }
+
+  /**
+   * Reserves the estimated cost of requests in the budget
+   *
+   * @param cost Estimated cost in USD (see estimateCost())
+   * @throws BudgetExceededError If the cost would exceed the budget
+   */
+  public reserve(cost: number): void {
+    if (
+      this.budget !== null &&
+      this.summary.total.cost + this.reservedCost + cost > this.budget
+    ) {
+      throw new BudgetExceededError(
+        `Budget ${String(this.budget)} USD would be exceeded (spent ${this.summary.total.cost.toFixed(4)} USD)`,
+      )
+    }
+
+    this.reservedCost += cost
+  }
+
+  /**
+   * Releases the reserved cost (after the requests are finished)
+   *
+   * @param cost Estimated cost in USD, which was reserved
+   */
+  public release(cost: number): void {
+    this.reservedCost = Math.max(0, this.reservedCost - cost)
+  }
+
+  /**
+   * Records usage of a finished request
+   *
+   * @param promptName Name of the prompt (identifies the parser)
+   * @param modelName Name of the language model
+   * @param usage Token usage reported by the backend (null if not reported)
+   * @param batch Was the request processed in a batch job?
+   */
+  public record(
+    promptName: string,
+    modelName: string,
+    usage: LanguageModelUsage | null,
+    batch = false,
+  ): void {
+    const inputTokens = usage?.inputTokens ?? 0
+    const outputTokens = usage?.outputTokens ?? 0
+    const cost = this.computeCost(
+      modelName,
+      { inputTokens: inputTokens, outputTokens: outputTokens },
+      batch,
+    )
+
+    this.summary.byParser[promptName] ??= this.createUsage()
+    const aggregates = [
+      this.summary.total,
+      this.summary.byParser[promptName],
+      this.currentPageUsage(),
+    ]
+    for (const aggregate of aggregates) {
+      if (aggregate === null) {
+        continue
+      }
+
+      aggregate.requests++
+      aggregate.inputTokens += inputTokens
+      aggregate.outputTokens += outputTokens
+      aggregate.cost += cost
+    }
+  }
+
+  /**
+   * Computes the cost of the tokens
+   *
+   * @param modelName Name of the language model
+   * @param usage Number of input and output tokens
+   * @param batch Are the tokens processed in a batch job?
+   * @returns Cost in USD (0 for models without a price, e.g., local ones)
+   */
+  public computeCost(
+    modelName: string,
+    usage: LanguageModelUsage,
+    batch: boolean,
+  ): number {
+    const price = this.prices[modelName] as ModelPrice | undefined
+    if (price === undefined) {
+      if (!this.unknownModels.has(modelName)) {
+        this.unknownModels.add(modelName)
+        console.log(
+          `[WARNING] Price of language model ${modelName} is unknown, its usage is considered free`,
+        )
+      }
+
+      return 0
+    }
+
+    const cost =
+      (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+      1_000_000
+
+    return batch ? cost * this.BATCH_DISCOUNT : cost
+  }
+
+  /**
+   * Creates an empty summary
+   *
+   * @returns Summary without any usage
+   */
+  private createSummary(): UsageSummary {
+    return { total: this.createUsage(), byParser: {}, byPage: {} }
+  }
+
+  /**
+   * Creates an empty usage
+   *
+   * @returns Usage without any requests
+   */
+  private createUsage(): TokenUsage {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  }
+}
@@ -3,23 +3,113 @@
  * @date 25th April 2025
  */
 
+import { Token } from "typedi"
+
 import { Author, Quote, Language } from "../../entities"
 
+import { QuoteParser } from "../ai"
+
+/**
+ * Interface for typing a list of sentences from wtf_wikipedia
+ *
+ * This interface is copied from the wtf_wikipedia module, as there are some
+ * typing errors in Section's methods, and we can't simply import classes like
+ * List from wtf_wikipedia due to ESM vs. CommonJS modules incompatibility.
+ * Some methods using other types (as Link) are not included, as we don't need
+ * them, and their presence would require adding more interfaces.
+ *
+ * @see https://www.npmjs.com/package/wtf_wikipedia
+ */
+export interface List {
+  json(options?: object): object
+  lines(): object[]
+  text(): string
+  wikitext(): string
+}
+
+/**
+ * Interface for typing a sentence from wtf_wikipedia
+ *
+ * This interface is copied from the wtf_wikipedia module, as there are some
+ * typing errors in Section's methods, and we can't simply import classes like
+ * List from wtf_wikipedia due to ESM vs. CommonJS modules incompatibility.
+ * Some methods using other types (as Link) are not included, as we don't need
+ * them, and their presence would require adding more interfaces.
+ *
+ * @see https://www.npmjs.com/package/wtf_wikipedia
+ */
+interface Sentence {
+  bold(clue?: number): string
+  bolds(): string[]
+  isEmpty(): boolean
+  italic(clue?: number): string
+  italics(): string[]
+  json(options?: object): object
+  plaintext: (str?: string) => string
+  text(str?: string): string
+  wikitext(): string
+}
+
+/**
+ * Token for registering content parsers into the DI container
+ *
+ * Each content parser registers itself using this token (with multiple flag),
+ * so it could be discovered by the content parser registry.
+ */
+export const CONTENT_PARSER = new Token<ContentParser>("contentParser")
+
 /**
  * Abstract content parser for grouping all content parsers
  */
 export abstract class ContentParser {
+  /**
+   * Abbreviation of the language the parser is for (e.g., "cs" for Czech)
+   */
+  public abstract readonly languageAbbreviation: string
+  /**
+   * Minimal score a quote needs to exceed to be accepted (from 0 to 100)
+   */
+  protected scoreThreshold = 50
+  /**
+   * Maximal length of an accepted quote (in characters)
+   */
+  protected maxQuoteLength = 500
+  /**
+   * Name of the PostgreSQL text search configuration for searching quotes
+   * (the simple one doesn't stem words, so it fits any language)
+   */
+  public textSearchConfig = "simple"
+
+  /**
+   * Constructor for ContentParser
+   *
+   * @param quoteParser Quote parser (dependency)
+   */
+  protected constructor(protected readonly quoteParser: QuoteParser) {}
+
   /**
    * Checks if the wiki page title starts with the prefix of forbidden pages
    *
-   * Prefixes are specific for each language, so a parser for each language needs to
-   * provide a list for its own language.
+   * Pages outside the main namespace are skipped by the loader using namespaces
+   * declared by the wiki dump, so this is only an optional extra filter for
+   * language-specific pages that should be skipped as well.
    *
    * @param pageTitle Page title of the wiki page to check
    * @returns Is the page title corresponding to a forbidden page?
    */
   public abstract isForbiddenPageName(pageTitle: string): boolean
 
+  /**
+   * Extracts quote candidates from the content of a wiki page
+   *
+   * Candidates aren't evaluated in any way, so they could be scored later (all
+   * at once in a batch job, for example).
+   *
+   * @param pageContent Content of the wiki page (in original mediawiki format)
+   * @returns List of quote candidates (plain texts)
+   */
+  public abstract extractCandidates(pageContent: string): Promise<string[]>
+
   /**
    * Parses the content of a wiki page and returns a list of obtained quotes
    *
@@ -30,10 +120,106 @@ export abstract class ContentParser {
    *
    * @returns List of quotes
    */
-  public abstract parse(
+  public async parse(
     pageUrl: string,
     pageContent: string,
     author: Author,
     language: Language,
-  ): Promise<Quote[]>
+  ): Promise<Quote[]> {
+    const quotes: Quote[] = []
+
+    for (const quoteCandidateText of await this.extractCandidates(
+      pageContent,
+    )) {
+      // Evaluate the quote candidate using the quote parser
+      const parsedQuote = await this.quoteParser.parseQuote(
+        author.englishFullName,
+        quoteCandidateText,
+      )
+
+      // Skip quote candidates that are not likely to be quotes
+      // or not good enough
+      if (
+        parsedQuote.score <= this.scoreThreshold ||
+        parsedQuote.cleanQuote.trim() === ""
+      ) {
+        continue
+      }
+
+      // Skip too long quotes
+      if (parsedQuote.cleanQuote.length > this.maxQuoteLength) {
+        continue
+      }
+
+      const quote = new Quote(
+        parsedQuote.cleanQuote,
+        pageUrl,
+        parsedQuote.score,
+        author,
+        language,
+      )
+
+      // Add the quote to the list of quotes
+      quotes.push(quote)
+    }
+
+    return quotes
+  }
+
+  /**
+   * Converts items of the lists into quote candidates
+   *
+   * @param lists Lists with quote candidates (one list item = one candidate)
+   * @returns List of quote candidates (plain texts)
+   */
+  protected extractListItems(lists: List[]): string[] {
+    const candidates: string[] = []
+
+    for (const list of lists) {
+      const listItems = list.lines() as Sentence[]
+
+      // Skip empty lists
+      if (listItems.length === 0) {
+        continue
+      }
+
+      for (const sentence of listItems) {
+        // Skip empty sentences
+        if (sentence.isEmpty()) {
+          continue
+        }
+
+        // Convert the sentence to plain text, which is a quote candidate
+        const quoteCandidateText = sentence
+          .text()
+          // If there are some descriptive texts on new lines after the quote,
+          // there is "<br" (without quotes) in the text
+          .replace(/\s*<br\s*/, "")
+
+        candidates.push(quoteCandidateText)
+      }
+    }
+
+    return candidates
+  }
+
+  /**
+   * Loads the wtf_wikipedia module with plugins this project needs
+   *
+   * @returns Function for parsing wiki pages
+   */
+  // Return type is inferred, as type imports of ESM modules aren't allowed
+  // in CommonJS modules
+  protected async loadWtf() {
+    // Import the wtf_wikipedia module dynamically (as it uses ESM and this
+    // project is running on CommonJS modules and can't be easily converted)
+    const wtfModule = await import("wtf_wikipedia")
+    const wtf = wtfModule.default
+
+    // Load i18n plugin for better parsing of non-English pages
+    // eslint-disable-next-line @typescript-eslint/no-require-imports,@typescript-eslint/no-unsafe-argument
+    wtf.extend(require("wtf-plugin-i18n"))
+
+    return wtf
+  }
 }
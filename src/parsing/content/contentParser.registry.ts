@@ -0,0 +1,93 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { InjectMany, Service } from "typedi"
+
+import { QuoteParser } from "../ai"
+import { UnsupportedLanguageError } from "../errors/unsupportedLanguage.error"
+import { CONTENT_PARSER, ContentParser } from "./content.parser"
+import { LANGUAGE_PROFILES } from "./languageProfiles"
+import { ProfileParser } from "./profile.parser"
+
+/**
+ * Registry of content parsers for all supported languages
+ *
+ * Most languages are parsed by the profile parser configured by their
+ * language profile. Languages with special needs could have their own parser
+ * class, which is discovered automatically from the DI container (it needs
+ * to register itself with the CONTENT_PARSER token) and takes precedence
+ * over the language's profile.
+ */
+@Service()
+export class ContentParserRegistry {
+  private readonly contentParsers = new Map<string, ContentParser>()
+
+  /**
+   * Constructor for ContentParserRegistry
+   *
+   * @param contentParsers All content parsers registered in the DI container (dependency)
+   * @param quoteParser Quote parser for profile parsers (dependency)
+   * @throws Error If there are more parsers for the same language
+   */
+  public constructor(
+    @InjectMany(CONTENT_PARSER) contentParsers: ContentParser[],
+    quoteParser: QuoteParser,
+  ) {
+    for (const contentParser of contentParsers) {
+      this.register(contentParser)
+    }
+
+    for (const profile of LANGUAGE_PROFILES) {
+      if (!this.contentParsers.has(profile.languageAbbreviation)) {
+        this.register(new ProfileParser(profile, quoteParser))
+      }
+    }
+  }
+
+  /**
+   * Registers a content parser for its language
+   *
+   * @param contentParser Content parser to register
+   * @throws Error If there is already a parser registered for the same language
+   */
+  public register(contentParser: ContentParser): void {
+    const languageAbbreviation = contentParser.languageAbbreviation
+    if (this.contentParsers.has(languageAbbreviation)) {
+      throw new Error(
+        `Content parser for language ${languageAbbreviation} is already registered`,
+      )
+    }
+
+    this.contentParsers.set(languageAbbreviation, contentParser)
+  }
+
+  /**
+   * Provides the content parser for the selected language
+   *
+   * @param languageAbbreviation Abbreviation of the language (e.g., "cs" for Czech)
+   * @returns Content parser for the language
+   * @throws UnsupportedLanguageError If no parser is registered for the language
+   */
+  public get(languageAbbreviation: string): ContentParser {
+    const contentParser = this.contentParsers.get(languageAbbreviation)
+
+    if (contentParser === undefined) {
+      throw new UnsupportedLanguageError(
+        `No content parser is registered for language ${languageAbbreviation} (supported languages: ${this.supportedLanguages().join(", ")})`,
+      )
+    }
+
+    return contentParser
+  }
+
+  /**
+   * Lists abbreviations of all languages with a registered content parser
+   *
+   * @returns List of language abbreviations
+   */
+  public supportedLanguages(): string[] {
+    return [...this.contentParsers.keys()]
+  }
+}
@@ -3,5 +3,7 @@
  * @date 25th April 2025
  */
 
-export { ContentParser } from "./content.parser"
-export { CzechParser } from "./czech.parser"
+export { CONTENT_PARSER, ContentParser } from "./content.parser"
+export { ContentParserRegistry } from "./contentParser.registry"
+export { LANGUAGE_PROFILES, LanguageProfile } from "./languageProfiles"
+export { ProfileParser } from "./profile.parser"
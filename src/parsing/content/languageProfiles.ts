@@ -0,0 +1,75 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Profile of a language describing how its wikiquote pages are structured
+ *
+ * @property languageAbbreviation Abbreviation of the language (e.g., "cs" for Czech)
+ * @property quoteSectionTitles Titles of sections containing quotes of the page's author (with their subsections)
+ * @property excludedSectionTitles Titles of (sub)sections with unreliable quotes (e.g., misattributed ones), which are skipped
+ * @property forbiddenPagePrefixes Extra prefixes of page titles that are not relevant (pages outside the main namespace are skipped automatically)
+ * @property scoreThreshold Minimal score a quote needs to exceed to be accepted (from 0 to 100)
+ * @property maxQuoteLength Maximal length of an accepted quote (in characters)
+ * @property textSearchConfig Name of the PostgreSQL text search configuration for searching quotes ("simple" by default)
+ */
+export interface LanguageProfile {
+  languageAbbreviation: string
+  quoteSectionTitles: string[]
+  excludedSectionTitles: string[]
+  forbiddenPagePrefixes?: string[]
+  scoreThreshold: number
+  maxQuoteLength: number
+  textSearchConfig?: string
+}
+
+/**
+ * Profiles of all languages supported out of the box
+ *
+ * Adding a new language with a common page structure means adding a new
+ * profile here. Titles of sections are compared case-insensitively.
+ * PostgreSQL has no built-in text search configurations for Czech, Polish,
+ * and Slovak, so their quotes are searched by the simple one (without
+ * stemming).
+ */
+export const LANGUAGE_PROFILES: LanguageProfile[] = [
+  {
+    languageAbbreviation: "cs",
+    quoteSectionTitles: ["Výroky"],
+    excludedSectionTitles: [],
+    scoreThreshold: 50,
+    maxQuoteLength: 500,
+  },
+  {
+    languageAbbreviation: "en",
+    // Older pages use "Sourced" instead of "Quotes"
+    quoteSectionTitles: ["Quotes", "Sourced"],
+    excludedSectionTitles: ["Disputed", "Misattributed"],
+    scoreThreshold: 50,
+    maxQuoteLength: 500,
+    textSearchConfig: "english",
+  },
+  {
+    languageAbbreviation: "de",
+    quoteSectionTitles: ["Zitate"],
+    excludedSectionTitles: ["Zugeschrieben", "Falsch zugeschrieben"],
+    scoreThreshold: 50,
+    maxQuoteLength: 500,
+    textSearchConfig: "german",
+  },
+  {
+    languageAbbreviation: "pl",
+    quoteSectionTitles: ["Wypowiedzi", "Cytaty"],
+    excludedSectionTitles: ["Przypisywane", "Błędnie przypisywane"],
+    scoreThreshold: 50,
+    maxQuoteLength: 500,
+  },
+  {
+    languageAbbreviation: "sk",
+    quoteSectionTitles: ["Výroky", "Citáty"],
+    excludedSectionTitles: ["Mylne pripisované"],
+    scoreThreshold: 50,
+    maxQuoteLength: 500,
+  },
+]
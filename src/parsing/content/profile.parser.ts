@@ -0,0 +1,125 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { QuoteParser } from "../ai"
+import { ContentParser, List } from "./content.parser"
+import { LanguageProfile } from "./languageProfiles"
+
+/**
+ * Language-neutral content parser configured by a language profile
+ *
+ * Quotes are taken from list items in the profile's quote sections and all
+ * their subsections, except the excluded ones (and their subsections).
+ */
+export class ProfileParser extends ContentParser {
+  public readonly languageAbbreviation: string
+
+  private readonly forbiddenPagePrefixesRegex: RegExp | null
+  private readonly quoteSectionTitles: string[]
+  private readonly excludedSectionTitles: string[]
+
+  /**
+   * Constructor for ProfileParser
+   *
+   * @param profile Profile of the language to parse
+   * @param quoteParser Quote parser
+   */
+  public constructor(profile: LanguageProfile, quoteParser: QuoteParser) {
+    super(quoteParser)
+
+    this.languageAbbreviation = profile.languageAbbreviation
+    this.scoreThreshold = profile.scoreThreshold
+    this.maxQuoteLength = profile.maxQuoteLength
+    this.textSearchConfig = profile.textSearchConfig ?? this.textSearchConfig
+
+    // Section titles are compared case-insensitively
+    this.quoteSectionTitles = profile.quoteSectionTitles.map((title) =>
+      title.toLowerCase(),
+    )
+    this.excludedSectionTitles = profile.excludedSectionTitles.map((title) =>
+      title.toLowerCase(),
+    )
+
+    // Create a regex from the list of forbidden page prefixes for faster checking
+    const forbiddenPagePrefixes = profile.forbiddenPagePrefixes ?? []
+    this.forbiddenPagePrefixesRegex =
+      forbiddenPagePrefixes.length > 0
+        ? new RegExp("^(" + forbiddenPagePrefixes.join("|") + ").*")
+        : null
+  }
+
+  /**
+   * Checks if the wiki page title starts with the prefix of forbidden pages
+   *
+   * Prefixes are taken from the language profile. If it has none, no page is
+   * forbidden by this check.
+   *
+   * @param pageTitle Page title of the wiki page to check
+   * @returns Is the page title corresponding to a forbidden page?
+   */
+  public isForbiddenPageName(pageTitle: string): boolean {
+    return this.forbiddenPagePrefixesRegex?.test(pageTitle) ?? false
+  }
+
+  /**
+   * Extracts quote candidates from the content of a wiki page
+   *
+   * @param pageContent Content of the wiki page (in original mediawiki format)
+   * @returns List of quote candidates (plain texts)
+   */
+  public async extractCandidates(pageContent: string): Promise<string[]> {
+    const wtf = await this.loadWtf()
+
+    // Parse the page content using wtf_wikipedia
+    const parsedPageContent = wtf(pageContent)
+
+    // Walk through all sections and collect lists from the quote sections
+    // (including their subsections), but without the excluded ones
+    // Section ends with the next section at the same or higher level
+    // (indentation of the section is stored to detect it)
+    let lists: List[] = []
+    let quoteSectionIndentation: number | null = null
+    let excludedSectionIndentation: number | null = null
+    for (const section of parsedPageContent.sections()) {
+      const title = section.title().trim().toLowerCase()
+      const indentation = section.indentation()
+
+      if (
+        quoteSectionIndentation !== null &&
+        indentation <= quoteSectionIndentation
+      ) {
+        quoteSectionIndentation = null
+      }
+      if (
+        excludedSectionIndentation !== null &&
+        indentation <= excludedSectionIndentation
+      ) {
+        excludedSectionIndentation = null
+      }
+
+      if (
+        quoteSectionIndentation === null &&
+        this.quoteSectionTitles.includes(title)
+      ) {
+        quoteSectionIndentation = indentation
+      }
+      if (
+        excludedSectionIndentation === null &&
+        this.excludedSectionTitles.includes(title)
+      ) {
+        excludedSectionIndentation = indentation
+      }
+
+      if (
+        quoteSectionIndentation !== null &&
+        excludedSectionIndentation === null
+      ) {
+        lists = lists.concat(section.lists() as List[])
+      }
+    }
+
+    return this.extractListItems(lists)
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Custom error for requests to language models that would exceed the budget of the run.
+ */
+export class BudgetExceededError extends Error {
+  /**
+   * Constructor for BudgetExceededError
+   *
+   * @param message Error message (description for user of the logic producing the error)
+   */
+  public constructor(message: string) {
+    super(message)
+    this.name = "BudgetExceededError"
+  }
+}
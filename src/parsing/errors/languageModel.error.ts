@@ -0,0 +1,31 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Custom error for failed communication with a language model.
+ *
+ * Some errors are temporary (rate limiting, server errors, invalid output),
+ * so the request could be retried. Others are fatal (invalid API key, invalid
+ * request), and retrying them would only waste time.
+ */
+export class LanguageModelError extends Error {
+  /**
+   * Constructor for LanguageModelError
+   *
+   * @param message Error message (description for user of the logic producing the error)
+   * @param retryable Could the request be retried?
+   * @param retryAfter Delay requested by the backend before retrying (in milliseconds, null if not requested)
+   * @param cause Original error (e.g., from the API client)
+   */
+  public constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly retryAfter: number | null = null,
+    cause?: unknown,
+  ) {
+    super(message, { cause: cause })
+    this.name = "LanguageModelError"
+  }
+}
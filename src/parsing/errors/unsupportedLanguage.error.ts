@@ -0,0 +1,19 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Custom error for languages that can't be parsed (no parser is registered for them).
+ */
+export class UnsupportedLanguageError extends Error {
+  /**
+   * Constructor for UnsupportedLanguageError
+   *
+   * @param message Error message (description for user of the logic producing the error)
+   */
+  public constructor(message: string) {
+    super(message)
+    this.name = "UnsupportedLanguageError"
+  }
+}
@@ -5,3 +5,6 @@
 
 export * from "./ai"
 export * from "./content"
+export { BudgetExceededError } from "./errors/budgetExceeded.error"
+export { LanguageModelError } from "./errors/languageModel.error"
+export { UnsupportedLanguageError } from "./errors/unsupportedLanguage.error"
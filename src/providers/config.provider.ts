@@ -33,30 +33,92 @@ export interface DatabaseConfig {
   database: string
 }
 
+/**
+ * Backend of the language model
+ *
+ * - openai—official OpenAI API
+ * - openai-compatible—any server with OpenAI-compatible API (Ollama, llama.cpp server, vLLM, etc.)
+ * - fixtures—replay of prepared responses (for running offline and in tests)
+ */
+export type LanguageModelBackend = "openai" | "openai-compatible" | "fixtures"
+
 /**
  * Configuration for the AI APIs
  *
- * @property openaiKey The API key for OpenAI API
+ * @property provider Backend of the language model
+ * @property model Name of the language model (e.g., "gpt-4.1-mini")
+ * @property openaiKey The API key for OpenAI API (required only for the official API)
+ * @property openaiBaseUrl Base URL of OpenAI API (required for OpenAI-compatible servers, official API is used if undefined)
+ * @property fixturesPath Path to the JSONL file with fixtures (required for the fixtures backend)
+ * @property pricesPath Path to the JSON file with prices of language models (optional, overrides built-in prices)
  */
 export interface AiApiConfig {
-  openaiKey: string
+  provider: LanguageModelBackend
+  model: string
+  openaiKey?: string
+  openaiBaseUrl?: string
+  fixturesPath?: string
+  pricesPath?: string
+}
+
+/**
+ * Configuration for loading quotes from wiki dumps
+ *
+ * @property concurrency Maximum number of pages processed at the same time
+ * @property wikidataApiUrl URL of the Wikidata API (for metadata of authors)
+ */
+export interface LoaderConfig {
+  concurrency: number
+  wikidataApiUrl: string
+}
+
+/**
+ * Configuration for discovering and downloading new wiki dumps
+ *
+ * @property mirrorUrl URL of the Wikimedia-style dump mirror (or path to its local copy)
+ * @property downloadPath Path to the directory, where the dumps are downloaded
+ * @property languages Abbreviations of languages, whose dumps are refreshed
+ * @property refreshInterval Delay between refreshes in watch mode (in milliseconds)
+ */
+export interface DumpMirrorConfig {
+  mirrorUrl: string
+  downloadPath: string
+  languages: string[]
+  refreshInterval: number
+}
+
+/**
+ * Configuration for selecting quotes of the day
+ *
+ * @property minScore Minimal score of selected quotes (lower ones are selected only if there are no others)
+ * @property repeatWindow Number of days before and after the day, when the quote of the day isn't selected again
+ * @property timeZone Default time zone of days (IANA name, e.g., "Europe/Prague")
+ */
+export interface DailyQuoteConfig {
+  minScore: number
+  repeatWindow: number
+  timeZone: string
 }
 
 /**
  * Configuration provider for the application
  *
- * This class provides configuration for the HTTP server, database connection, and AI APIs
+ * This class provides configuration for the HTTP server, database connection,
+ * AI APIs, loading of wiki dumps, their discovery, and quotes of the day
  */
 @Service()
 export class ConfigProvider {
   private readonly appConfig: AppConfig
   private readonly databaseConfig: DatabaseConfig
   private readonly aiApiConfig: AiApiConfig
+  private readonly loaderConfig: LoaderConfig
+  private readonly dumpMirrorConfig: DumpMirrorConfig
+  private readonly dailyQuoteConfig: DailyQuoteConfig
 
   /**
    * Initializes the configuration provider with values from environment variables
    *
-   * @throws {Error} If the GOOGLE_AI_API_KEY environment variable is not set
+   * @throws {Error} If an environment variable required by the selected language model backend is not set
    */
   public constructor() {
     this.appConfig = {
@@ -72,11 +134,54 @@ export class ConfigProvider {
       database: process.env.POSTGRESQL_DATABASE || "international-quotes",
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is not set")
+    const provider = process.env.LLM_PROVIDER || "openai"
+    if (!["openai", "openai-compatible", "fixtures"].includes(provider)) {
+      throw new Error(
+        `LLM_PROVIDER environment variable has unsupported value ${provider}`,
+      )
     }
     this.aiApiConfig = {
-      openaiKey: process.env.OPENAI_API_KEY,
+      provider: provider as LanguageModelBackend,
+      model: process.env.LLM_MODEL || "gpt-4.1-mini",
+      openaiKey: process.env.OPENAI_API_KEY || undefined,
+      openaiBaseUrl: process.env.OPENAI_BASE_URL || undefined,
+      fixturesPath: process.env.LLM_FIXTURES_PATH || undefined,
+      pricesPath: process.env.LLM_PRICES_PATH || undefined,
+    }
+    if (provider === "openai" && !this.aiApiConfig.openaiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is not set")
+    }
+    if (provider === "openai-compatible" && !this.aiApiConfig.openaiBaseUrl) {
+      throw new Error("OPENAI_BASE_URL environment variable is not set")
+    }
+    if (provider === "fixtures" && !this.aiApiConfig.fixturesPath) {
+      throw new Error("LLM_FIXTURES_PATH environment variable is not set")
+    }
+
+    this.loaderConfig = {
+      concurrency: Math.max(1, parseInt(process.env.LOADER_CONCURRENCY || "4")),
+      wikidataApiUrl:
+        process.env.WIKIDATA_API_URL || "https://www.wikidata.org/w/api.php",
+    }
+
+    this.dumpMirrorConfig = {
+      mirrorUrl: process.env.DUMP_MIRROR_URL || "https://dumps.wikimedia.org",
+      downloadPath: process.env.DUMP_DOWNLOAD_PATH || "./dumps",
+      languages: (process.env.DUMP_LANGUAGES || "cs")
+        .split(",")
+        .map((language) => language.trim())
+        .filter((language) => language !== ""),
+      refreshInterval:
+        parseFloat(process.env.DUMP_REFRESH_INTERVAL || "24") * 60 * 60 * 1000,
+    }
+
+    this.dailyQuoteConfig = {
+      minScore: parseInt(process.env.DAILY_QUOTE_MIN_SCORE || "80"),
+      repeatWindow: Math.max(
+        0,
+        parseInt(process.env.DAILY_QUOTE_REPEAT_WINDOW || "365"),
+      ),
+      timeZone: process.env.DAILY_QUOTE_TIME_ZONE || "UTC",
     }
   }
 
@@ -105,4 +210,31 @@ export class ConfigProvider {
   public provideAiApiConfig(): AiApiConfig {
     return this.aiApiConfig
   }
+
+  /**
+   * Provides the configuration for loading quotes from wiki dumps
+   *
+   * @returns The configuration for loading quotes from wiki dumps
+   */
+  public provideLoaderConfig(): LoaderConfig {
+    return this.loaderConfig
+  }
+
+  /**
+   * Provides the configuration for discovering and downloading new wiki dumps
+   *
+   * @returns The configuration for discovering and downloading new wiki dumps
+   */
+  public provideDumpMirrorConfig(): DumpMirrorConfig {
+    return this.dumpMirrorConfig
+  }
+
+  /**
+   * Provides the configuration for selecting quotes of the day
+   *
+   * @returns The configuration for selecting quotes of the day
+   */
+  public provideDailyQuoteConfig(): DailyQuoteConfig {
+    return this.dailyQuoteConfig
+  }
 }
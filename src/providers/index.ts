@@ -3,5 +3,10 @@
  * @date 25th April 2025
  */
 
-export { ConfigProvider } from "./config.provider"
+export {
+  ConfigProvider,
+  DailyQuoteConfig,
+  DumpMirrorConfig,
+  LoaderConfig,
+} from "./config.provider"
 export { DataSourceProvider } from "./dataSource.provider"
@@ -11,7 +11,7 @@ import { Container } from "typedi"
 
 import { AppBootstrap } from "./app"
 import { ConfigProvider, DataSourceProvider } from "./providers"
-import { WikiquoteLoader } from "./loading"
+import { QuoteService } from "./services"
 
 void (async (): Promise<void> => {
   try {
@@ -27,11 +27,8 @@ void (async (): Promise<void> => {
     const dataSource = dataSourceProvider.provide()
     await dataSource.initialize()
 
-    // Prepare data to be served by application
-    const wikiQuoteLoader = Container.get(WikiquoteLoader)
-    await wikiQuoteLoader.loadQuotesFromWikiDump(
-      `${__dirname}/../dumps/cswikiquote-20250320-pages-meta-current.xml`,
-    )
+    // Reload random quotes when quotes are loaded (by the admin CLI)
+    await Container.get(QuoteService).listenForIdPoolInvalidations()
 
     // Setup application
     const bootstrap = Container.get(AppBootstrap)
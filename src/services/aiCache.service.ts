@@ -0,0 +1,142 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Repository } from "typeorm"
+import { Service } from "typedi"
+import { XXHash128 } from "xxhash-addon"
+
+import { DataSourceProvider } from "../providers"
+import { AiCacheEntry } from "../entities"
+
+import { NotFoundError } from "./errors/notFound.error"
+
+/**
+ * Identification of a prompt whose responses are cached
+ *
+ * @property modelName API name of the language model
+ * @property promptName Name of the prompt (e.g., "quote" for quote scoring)
+ * @property promptVersion Version of the prompt (should be increased with every change of the prompt)
+ */
+export interface CachedPrompt {
+  modelName: string
+  promptName: string
+  promptVersion: number
+}
+
+/**
+ * Service for managing cached responses of language models
+ */
+@Service()
+export class AiCacheService {
+  private readonly aiCacheEntryRepository: Repository<AiCacheEntry>
+
+  /**
+   * Constructor for AiCacheService
+   *
+   * @param dataSourceProvider Data source provider (dependency)
+   */
+  public constructor(dataSourceProvider: DataSourceProvider) {
+    const dataSource = dataSourceProvider.provide()
+
+    this.aiCacheEntryRepository = dataSource.getRepository(AiCacheEntry)
+  }
+
+  /**
+   * Fetches the cached response for the input
+   *
+   * @param prompt Prompt the input was used with
+   * @param input Input text sent to the language model
+   * @returns Cached response (serialized as JSON)
+   * @throws NotFoundError If there is no cached response for the input
+   */
+  public async fetchResponse(
+    prompt: CachedPrompt,
+    input: string,
+  ): Promise<string> {
+    const entry = await this.aiCacheEntryRepository.findOneBy({
+      ...prompt,
+      inputHash: this.hashInput(input),
+    })
+
+    if (entry === null) {
+      throw new NotFoundError(
+        `No cached response of prompt ${prompt.promptName} (version ${String(prompt.promptVersion)}) for model ${prompt.modelName}`,
+      )
+    }
+
+    return entry.response
+  }
+
+  /**
+   * Saves the response for the input to the cache
+   *
+   * @param prompt Prompt the input was used with
+   * @param input Input text sent to the language model
+   * @param response Response of the language model (serialized as JSON)
+   */
+  public async saveResponse(
+    prompt: CachedPrompt,
+    input: string,
+    response: string,
+  ): Promise<void> {
+    await this.saveResponseByInputHash(prompt, this.hashInput(input), response)
+  }
+
+  /**
+   * Saves the response for the input identified by its hash to the cache
+   *
+   * This is useful when the input itself isn't available anymore (e.g., when
+   * results of a batch job are processed, which are identified by the hash).
+   *
+   * @param prompt Prompt the input was used with
+   * @param inputHash Hash of the input text (see hashInput())
+   * @param response Response of the language model (serialized as JSON)
+   */
+  public async saveResponseByInputHash(
+    prompt: CachedPrompt,
+    inputHash: string,
+    response: string,
+  ): Promise<void> {
+    await this.aiCacheEntryRepository.save(
+      new AiCacheEntry(
+        prompt.modelName,
+        prompt.promptName,
+        prompt.promptVersion,
+        inputHash,
+        response,
+      ),
+    )
+  }
+
+  /**
+   * Invalidates (deletes) cached responses of the prompt
+   *
+   * @param promptName Name of the prompt
+   * @param promptVersion Version of the prompt to invalidate (all versions if not set)
+   * @returns Number of deleted cache entries
+   */
+  public async invalidate(
+    promptName: string,
+    promptVersion?: number,
+  ): Promise<number> {
+    const result = await this.aiCacheEntryRepository.delete(
+      promptVersion === undefined
+        ? { promptName: promptName }
+        : { promptName: promptName, promptVersion: promptVersion },
+    )
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Computes the hash of the input text
+   *
+   * @param input Input text sent to the language model
+   * @returns Hexadecimal hash of the input
+   */
+  public hashInput(input: string): string {
+    return XXHash128.hash(Buffer.from(input)).toString("hex")
+  }
+}
@@ -4,18 +4,70 @@
  */
 
 import { Service } from "typedi"
-import { Repository } from "typeorm"
+import { IsNull, LessThan, Not, Repository, SelectQueryBuilder } from "typeorm"
 
 import { DataSourceProvider } from "../providers"
-import { Author, Language, Quote, TranslatedAuthorName } from "../entities"
+import {
+  Author,
+  Language,
+  Page,
+  Quote,
+  TranslatedAuthorName,
+} from "../entities"
 
 import { NotFoundError } from "./errors/notFound.error"
+import {
+  PaginatedList,
+  Pagination,
+  PaginationService,
+} from "./pagination.service"
+
+/**
+ * Filter of authors by their metadata (all conditions are optional)
+ *
+ * @property nationality Country of citizenship in English (case-insensitive)
+ * @property occupation Occupation in English (case-insensitive)
+ * @property bornFrom Minimal year of birth
+ * @property bornTo Maximal year of birth
+ * @property diedFrom Minimal year of death
+ * @property diedTo Maximal year of death
+ */
+export interface AuthorFilter {
+  nationality?: string
+  occupation?: string
+  bornFrom?: number
+  bornTo?: number
+  diedFrom?: number
+  diedTo?: number
+}
+
+/**
+ * Author found by searching names
+ *
+ * @property author Found author
+ * @property rank Similarity of the author's best matching name with the search query (from 0 to 1, higher is better)
+ */
+export interface AuthorSearchResult {
+  author: Author
+
+  rank: number
+}
+
+/**
+ * Names of sort keys of authors
+ */
+export type AuthorSort = "id" | "name"
 
 /**
  * Service for managing authors
  */
 @Service()
 export class AuthorService {
+  /**
+   * Name of the database function removing diacritics (see prepareSearch())
+   */
+  private readonly UNACCENT_FUNCTION = "immutable_unaccent"
+
   private readonly authorRepository: Repository<Author>
   private readonly translatedAuthorNameRepository: Repository<TranslatedAuthorName>
   private readonly quoteRepository: Repository<Quote>
@@ -24,8 +76,12 @@ export class AuthorService {
    * Constructor for the AuthorService
    *
    * @param dataSourceProvider Data source provider (dependency)
+   * @param paginationService Pagination service (dependency)
    */
-  public constructor(dataSourceProvider: DataSourceProvider) {
+  public constructor(
+    dataSourceProvider: DataSourceProvider,
+    private readonly paginationService: PaginationService,
+  ) {
     const dataSource = dataSourceProvider.provide()
 
     this.authorRepository = dataSource.getRepository(Author)
@@ -35,23 +91,41 @@ export class AuthorService {
   }
 
   /**
-   * Fetches all authors
+   * Fetches the page of authors
    *
-   * @returns List of authors
+   * Authors could be sorted by their identifiers or English full names.
+   *
+   * @param filter Filter of authors by their metadata
+   * @param pagination Selection of the page
+   * @returns Page of the list of authors
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
    */
-  public async fetchAll(): Promise<Author[]> {
-    return (
-      this.authorRepository
-        .createQueryBuilder("author")
-        .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
-        /* Limit to authors that have at least one quote */
-        .whereExists(
-          this.quoteRepository
-            .createQueryBuilder("quote")
-            .select("1")
-            .where("quote.authorId = author.id"),
-        )
-        .getMany()
+  public async fetchPage(
+    filter: AuthorFilter,
+    pagination: Pagination<AuthorSort>,
+  ): Promise<PaginatedList<Author>> {
+    return this.paginationService.paginate(
+      this.applyFilter(
+        this.authorRepository
+          .createQueryBuilder("author")
+          .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+          /* Limit to authors that have at least one quote */
+          .whereExists(
+            this.quoteRepository
+              .createQueryBuilder("quote")
+              .select("1")
+              .where("quote.authorId = author.id"),
+          ),
+        filter,
+      ),
+      pagination,
+      {
+        id: { column: "author.id", value: (author) => author.id },
+        name: {
+          column: "author.englishFullName",
+          value: (author) => author.englishFullName,
+        },
+      },
     )
   }
 
@@ -62,10 +136,14 @@ export class AuthorService {
    * a subset of quotes the person really authored.
    *
    * @param language Selected language
+   * @param filter Filter of authors by their metadata
    * @returns List of authors
    */
-  public async fetchAllByLanguage(language: Language): Promise<Author[]> {
-    return (
+  public async fetchAllByLanguage(
+    language: Language,
+    filter: AuthorFilter = {},
+  ): Promise<Author[]> {
+    return this.applyFilter(
       this.authorRepository
         .createQueryBuilder("author")
         .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
@@ -81,8 +159,118 @@ export class AuthorService {
               "quote.authorId = author.id AND quote.languageAbbreviation = :langAbbr",
               { langAbbr: language.abbreviation },
             ),
-        )
-        .getMany()
+        ),
+      filter,
+    ).getMany()
+  }
+
+  /**
+   * Searches authors by their English and translated names
+   *
+   * Names are compared without diacritics and case by trigram similarity of
+   * their words, so "Capek" finds "Karel Čapek", and minor typos are
+   * tolerated. Authors with a name containing a word starting with the query
+   * go first, so the results are suitable for autocomplete.
+   *
+   * @param query Search query (a part of the name)
+   * @param language Language of searched translated names, and of quotes the authors must have (null for all languages)
+   * @param limit Maximum number of found authors
+   * @returns Found authors from the most relevant (empty if the search isn't prepared yet)
+   */
+  public async search(
+    query: string,
+    language: Language | null,
+    limit: number,
+  ): Promise<AuthorSearchResult[]> {
+    const functions = (await this.authorRepository.query(
+      "SELECT 1 FROM pg_proc WHERE proname = $1",
+      [this.UNACCENT_FUNCTION],
+    )) as unknown[]
+    if (functions.length === 0) {
+      return []
+    }
+
+    // Wildcards of LIKE patterns are escaped in the query
+    const likeQuery = query.replace(/[\\%_]/g, "\\$&")
+    const normalize = (expression: string): string =>
+      `${this.UNACCENT_FUNCTION}(lower(${expression}))`
+    const isPrefix = `names.name LIKE ${normalize("$2")} OR names.name LIKE ${normalize("$3")}`
+
+    const rows = (await this.authorRepository.query(
+      `SELECT names."authorId",
+         MAX(CASE WHEN ${isPrefix} THEN 1 ELSE 0 END) AS "isPrefix",
+         MAX(word_similarity(${normalize("$1")}, names.name)) AS "wordSimilarity",
+         MAX(similarity(${normalize("$1")}, names.name)) AS "nameSimilarity"
+       FROM (
+         SELECT id AS "authorId", ${normalize('"englishFullName"')} AS name FROM author
+         UNION ALL
+         SELECT "authorId", ${normalize('"fullName"')} AS name FROM translated_author_name
+         ${language === null ? "" : 'WHERE "languageAbbreviation" = $5'}
+       ) names
+       WHERE (${isPrefix} OR ${normalize("$1")} <% names.name)
+         AND EXISTS (
+           SELECT 1 FROM quote WHERE quote."authorId" = names."authorId"
+           ${language === null ? "" : 'AND quote."languageAbbreviation" = $5'}
+         )
+       GROUP BY names."authorId"
+       ORDER BY "isPrefix" DESC, "wordSimilarity" DESC, "nameSimilarity" DESC, names."authorId"
+       LIMIT $4`,
+      [
+        query,
+        `${likeQuery}%`,
+        `% ${likeQuery}%`,
+        limit,
+        ...(language === null ? [] : [language.abbreviation]),
+      ],
+    )) as { authorId: number; wordSimilarity: number }[]
+    if (rows.length === 0) {
+      return []
+    }
+
+    const authors = await this.authorRepository
+      .createQueryBuilder("author")
+      .leftJoinAndSelect(
+        "author.translatedFullNames",
+        "translatedFullName",
+        language === null
+          ? undefined
+          : "translatedFullName.languageAbbreviation = :langAbbr",
+        { langAbbr: language?.abbreviation },
+      )
+      .whereInIds(rows.map((row) => row.authorId))
+      .getMany()
+    const authorsById = new Map(authors.map((author) => [author.id, author]))
+
+    return rows.flatMap((row) => {
+      const author = authorsById.get(row.authorId)
+
+      return author === undefined
+        ? []
+        : [{ author: author, rank: row.wordSimilarity }]
+    })
+  }
+
+  /**
+   * Prepares the database for searching authors by their names
+   *
+   * Required extensions (pg_trgm, unaccent), the function removing diacritics
+   * (unaccent() itself can't be used in indexes, as it depends on the search
+   * path), and trigram indexes of names aren't managed by the ORM, so they are
+   * created here if they are missing.
+   */
+  public async prepareSearch(): Promise<void> {
+    await this.authorRepository.query("CREATE EXTENSION IF NOT EXISTS pg_trgm")
+    await this.authorRepository.query("CREATE EXTENSION IF NOT EXISTS unaccent")
+    await this.authorRepository.query(
+      `CREATE OR REPLACE FUNCTION ${this.UNACCENT_FUNCTION}(text) RETURNS text
+       LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+       AS $$ SELECT public.unaccent('public.unaccent', $1) $$`,
+    )
+    await this.authorRepository.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_author_search_name" ON author USING GIN (${this.UNACCENT_FUNCTION}(lower("englishFullName")) gin_trgm_ops)`,
+    )
+    await this.authorRepository.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_translated_author_name_search_name" ON translated_author_name USING GIN (${this.UNACCENT_FUNCTION}(lower("fullName")) gin_trgm_ops)`,
     )
   }
 
@@ -104,7 +292,9 @@ export class AuthorService {
   }
 
   /**
-   * Fetches author by English full name
+   * Fetches author identified by English full name (without a Wikidata item)
+   *
+   * Authors with Wikidata items are skipped, as namesakes share the same name.
    *
    * @param englishFullName Author's English full name
    * @returns Found author that has the given English full name
@@ -116,6 +306,7 @@ export class AuthorService {
     const author = await this.authorRepository.findOne({
       where: {
         englishFullName: englishFullName,
+        wikidataId: IsNull(),
       },
     })
 
@@ -128,6 +319,63 @@ export class AuthorService {
     return author
   }
 
+  /**
+   * Fetches author by identifier of the Wikidata item
+   *
+   * @param wikidataId Identifier of the author's Wikidata item (e.g., "Q937")
+   * @returns Found author
+   * @throws NotFoundError If the author with the Wikidata item does not exist in the database
+   */
+  public async fetchByWikidataId(wikidataId: string): Promise<Author> {
+    const author = await this.authorRepository.findOneBy({
+      wikidataId: wikidataId,
+    })
+
+    if (author === null) {
+      throw new NotFoundError(
+        `Author with Wikidata item ${wikidataId} not found`,
+      )
+    }
+
+    return author
+  }
+
+  /**
+   * Fetches all authors with quotes in more than one language
+   *
+   * @returns List of authors
+   */
+  public async fetchAllWithQuotesInMultipleLanguages(): Promise<Author[]> {
+    return this.authorRepository
+      .createQueryBuilder("author")
+      .where(
+        'author.id IN (SELECT quote."authorId" FROM quote GROUP BY quote."authorId" HAVING COUNT(DISTINCT quote."languageAbbreviation") > 1)',
+      )
+      .orderBy("author.id")
+      .getMany()
+  }
+
+  /**
+   * Fetches authors with Wikidata items, whose metadata are missing or outdated
+   *
+   * @param updatedBefore Metadata updated before this time are outdated
+   * @returns List of authors
+   */
+  public async fetchAllWithOutdatedMetadata(
+    updatedBefore: Date,
+  ): Promise<Author[]> {
+    return this.authorRepository.find({
+      where: [
+        { wikidataId: Not(IsNull()), metadataUpdatedAt: IsNull() },
+        {
+          wikidataId: Not(IsNull()),
+          metadataUpdatedAt: LessThan(updatedBefore),
+        },
+      ],
+      order: { id: "ASC" },
+    })
+  }
+
   /**
    * Saves author to the database
    *
@@ -138,6 +386,50 @@ export class AuthorService {
     return await this.authorRepository.save(author)
   }
 
+  /**
+   * Assigns the Wikidata item to the author of quotes loaded from the page
+   *
+   * It's meant for authors identified by their names (loaded before Wikidata
+   * items were known) with unchanged pages, which aren't parsed again. Authors
+   * with a Wikidata item are kept, and nothing is changed if another author
+   * has the Wikidata item already.
+   *
+   * @param page Page the author's quotes were loaded from
+   * @param wikidataId Identifier of the page's Wikidata item (e.g., "Q937")
+   * @returns Was the Wikidata item assigned?
+   */
+  public async assignWikidataIdByPage(
+    page: Page,
+    wikidataId: string,
+  ): Promise<boolean> {
+    const result = await this.authorRepository
+      .createQueryBuilder()
+      .update()
+      .set({ wikidataId: wikidataId })
+      .where('"wikidataId" IS NULL')
+      // The page could contain a few quotes of other authors (see deduplication)
+      .andWhere(
+        'id = (SELECT quote."authorId" FROM quote WHERE quote."pageId" = :pageId GROUP BY quote."authorId" ORDER BY COUNT(*) DESC LIMIT 1)',
+        { pageId: page.id },
+      )
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM author other WHERE other."wikidataId" = :wikidataId)',
+        { wikidataId: wikidataId },
+      )
+      .execute()
+
+    return (result.affected ?? 0) > 0
+  }
+
+  /**
+   * Saves a list of authors to the database
+   *
+   * @param authors List of authors to save
+   */
+  public async saveAll(authors: Author[]): Promise<void> {
+    await this.authorRepository.save(authors)
+  }
+
   /**
    * Adds a translated full name to the author
    *
@@ -161,4 +453,92 @@ export class AuthorService {
     await this.translatedAuthorNameRepository.save(translatedName)
     await this.authorRepository.save(author)
   }
+
+  /**
+   * Deletes translated full names of all authors in the selected language
+   *
+   * @param language Selected language
+   * @returns Number of deleted translated full names
+   */
+  public async deleteTranslatedFullNamesByLanguage(
+    language: Language,
+  ): Promise<number> {
+    const result = await this.translatedAuthorNameRepository.delete({
+      languageAbbreviation: language.abbreviation,
+    })
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Deletes all authors without any quote (and their translated full names)
+   *
+   * @returns Number of deleted authors
+   */
+  public async deleteAllWithoutQuotes(): Promise<number> {
+    const authorsWithoutQuotes = this.authorRepository
+      .createQueryBuilder("author")
+      .select("author.id")
+      .where(
+        'NOT EXISTS (SELECT 1 FROM quote WHERE quote."authorId" = author.id)',
+      )
+
+    await this.translatedAuthorNameRepository
+      .createQueryBuilder()
+      .delete()
+      .where(`"authorId" IN (${authorsWithoutQuotes.getQuery()})`)
+      .execute()
+    const result = await this.authorRepository
+      .createQueryBuilder()
+      .delete()
+      .where(`id IN (${authorsWithoutQuotes.getQuery()})`)
+      .execute()
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Adds conditions of the filter to the query of authors
+   *
+   * @param queryBuilder Query of authors (with the "author" alias)
+   * @param filter Filter of authors by their metadata
+   * @returns The same query with added conditions
+   */
+  private applyFilter(
+    queryBuilder: SelectQueryBuilder<Author>,
+    filter: AuthorFilter,
+  ): SelectQueryBuilder<Author> {
+    if (filter.nationality !== undefined) {
+      queryBuilder.andWhere("LOWER(author.nationality) = LOWER(:nationality)", {
+        nationality: filter.nationality,
+      })
+    }
+    if (filter.occupation !== undefined) {
+      queryBuilder.andWhere("LOWER(author.occupation) = LOWER(:occupation)", {
+        occupation: filter.occupation,
+      })
+    }
+    if (filter.bornFrom !== undefined) {
+      queryBuilder.andWhere("author.birthYear >= :bornFrom", {
+        bornFrom: filter.bornFrom,
+      })
+    }
+    if (filter.bornTo !== undefined) {
+      queryBuilder.andWhere("author.birthYear <= :bornTo", {
+        bornTo: filter.bornTo,
+      })
+    }
+    if (filter.diedFrom !== undefined) {
+      queryBuilder.andWhere("author.deathYear >= :diedFrom", {
+        diedFrom: filter.diedFrom,
+      })
+    }
+    if (filter.diedTo !== undefined) {
+      queryBuilder.andWhere("author.deathYear <= :diedTo", {
+        diedTo: filter.diedTo,
+      })
+    }
+
+    return queryBuilder
+  }
 }
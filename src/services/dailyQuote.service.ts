@@ -0,0 +1,289 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Repository } from "typeorm"
+import { Service } from "typedi"
+
+import {
+  ConfigProvider,
+  DailyQuoteConfig,
+  DataSourceProvider,
+} from "../providers"
+import { DailyQuote, Language, Quote } from "../entities"
+
+import { NotFoundError } from "./errors/notFound.error"
+
+/**
+ * Quote of the day
+ *
+ * @property quote The selected quote
+ * @property date The day (in YYYY-MM-DD format)
+ * @property expiresAt End of the day in its time zone (the next midnight)
+ */
+export interface QuoteOfDay {
+  quote: Quote
+
+  date: string
+
+  expiresAt: Date
+}
+
+/**
+ * Service for selecting quotes of the day
+ *
+ * The quote of the day is the same for everyone for the whole day. It's
+ * selected deterministically from quotes with high scores (by hashes of their
+ * identifiers and the date), while quotes selected for near days are avoided.
+ * Selected quotes are stored, so they don't change after loading new quotes.
+ *
+ * Only quotes of the current day are selected, so past days without stored
+ * quotes (e.g., before the first request) stay without them. Otherwise, anyone
+ * could fill the table with selections for arbitrary past days, which would
+ * also change later selections (by the repeat window).
+ */
+@Service()
+export class DailyQuoteService {
+  private readonly dailyQuoteRepository: Repository<DailyQuote>
+  private readonly quoteRepository: Repository<Quote>
+
+  /**
+   * Configuration for selecting quotes of the day
+   */
+  private readonly dailyQuoteConfig: DailyQuoteConfig
+
+  /**
+   * Constructor for DailyQuoteService
+   *
+   * @param dataSourceProvider Data source provider (dependency)
+   * @param configProvider Config provider (dependency)
+   */
+  public constructor(
+    dataSourceProvider: DataSourceProvider,
+    configProvider: ConfigProvider,
+  ) {
+    const dataSource = dataSourceProvider.provide()
+
+    this.dailyQuoteRepository = dataSource.getRepository(DailyQuote)
+    this.quoteRepository = dataSource.getRepository(Quote)
+    this.dailyQuoteConfig = configProvider.provideDailyQuoteConfig()
+  }
+
+  /**
+   * Fetches the quote of the day in the selected language
+   *
+   * The quote is selected (and stored) by the first request for the day,
+   * quotes of past days are only fetched.
+   *
+   * @param language Selected language
+   * @param date The day in YYYY-MM-DD format (today if undefined)
+   * @param timeZone Time zone of the day (IANA name, the configured one if undefined)
+   * @returns Quote of the day
+   * @throws NotFoundError If the day is in the future, no quote was selected for the past day, or no quote is found for the selected language in the database
+   */
+  public async fetchQuoteOfDay(
+    language: Language,
+    date?: string,
+    timeZone?: string,
+  ): Promise<QuoteOfDay> {
+    const zone = timeZone ?? this.dailyQuoteConfig.timeZone
+    const today = this.formatDate(new Date(), zone)
+    const day = date ?? today
+    // Dates in YYYY-MM-DD format are ordered as strings
+    if (day > today) {
+      throw new NotFoundError(
+        `Quote of the day for ${day} in time zone ${zone} is not selected yet`,
+      )
+    }
+
+    let quote = await this.fetchSelected(language, day)
+    if (quote === null && day < today) {
+      throw new NotFoundError(
+        `No quote of the day was selected for ${day} in language with abbreviation ${language.abbreviation}`,
+      )
+    }
+    if (quote === null) {
+      const selectedQuote = await this.selectQuote(language, day)
+
+      // Concurrent requests select the same quote, so only the first one is stored
+      await this.dailyQuoteRepository
+        .createQueryBuilder()
+        .insert()
+        .values(new DailyQuote(language, day, selectedQuote))
+        .orIgnore()
+        .execute()
+
+      quote = (await this.fetchSelected(language, day)) ?? selectedQuote
+    }
+
+    return {
+      quote: quote,
+      date: day,
+      expiresAt: this.composeMidnightAfter(day, zone),
+    }
+  }
+
+  /**
+   * Fetches the stored quote of the day
+   *
+   * @param language Language of the quote
+   * @param date The day (in YYYY-MM-DD format)
+   * @returns The stored quote or null if no quote was selected for the day yet
+   */
+  private async fetchSelected(
+    language: Language,
+    date: string,
+  ): Promise<Quote | null> {
+    return this.quoteRepository
+      .createQueryBuilder("quote")
+      .innerJoin(DailyQuote, "dailyQuote", '"dailyQuote"."quoteId" = quote.id')
+      .leftJoinAndSelect("quote.author", "author")
+      .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+      .leftJoinAndSelect("quote.page", "page")
+      .where("dailyQuote.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .andWhere("dailyQuote.date = :date", { date: date })
+      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .getOne()
+  }
+
+  /**
+   * Selects the quote of the day
+   *
+   * Quotes with high scores go first, and quotes selected for other days in
+   * the repeat window go last, so they are selected only if there are no
+   * others. The rest is ordered by hashes of quote identifiers and the date.
+   *
+   * @param language Language of the quote
+   * @param date The day (in YYYY-MM-DD format)
+   * @returns The selected quote
+   * @throws NotFoundError If no quote is found for the selected language in the database
+   */
+  private async selectQuote(language: Language, date: string): Promise<Quote> {
+    const quote = await this.quoteRepository
+      .createQueryBuilder("quote")
+      .leftJoinAndSelect("quote.author", "author")
+      .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+      .leftJoinAndSelect("quote.page", "page")
+      .where("quote.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .orderBy("quote.score >= :minScore", "DESC")
+      .addOrderBy(
+        'EXISTS (SELECT 1 FROM daily_quote WHERE daily_quote."quoteId" = quote.id AND daily_quote."languageAbbreviation" = :langAbbr AND daily_quote.date BETWEEN :windowStart AND :windowEnd)',
+        "ASC",
+      )
+      .addOrderBy("md5(CAST(:date AS text) || quote.id)", "ASC")
+      .setParameters({
+        minScore: this.dailyQuoteConfig.minScore,
+        windowStart: this.shiftDate(date, -this.dailyQuoteConfig.repeatWindow),
+        windowEnd: this.shiftDate(date, this.dailyQuoteConfig.repeatWindow),
+        date: date,
+      })
+      .limit(1)
+      .getOne()
+
+    if (quote === null) {
+      throw new NotFoundError(
+        `No quote found for language with abbreviation ${language.abbreviation}`,
+      )
+    }
+
+    return quote
+  }
+
+  /**
+   * Formats the date of the time in the time zone
+   *
+   * @param time The time
+   * @param timeZone Time zone (IANA name)
+   * @returns The date in YYYY-MM-DD format
+   */
+  private formatDate(time: Date, timeZone: string): string {
+    const parts = this.splitTime(time, timeZone)
+
+    return [parts.year, parts.month, parts.day]
+      .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, "0"))
+      .join("-")
+  }
+
+  /**
+   * Shifts the date by the number of days
+   *
+   * @param date The date in YYYY-MM-DD format
+   * @param days Number of days (negative for shifting back)
+   * @returns The shifted date in YYYY-MM-DD format
+   */
+  private shiftDate(date: string, days: number): string {
+    const [year, month, day] = date.split("-").map(Number)
+
+    return new Date(Date.UTC(year, month - 1, day + days))
+      .toISOString()
+      .slice(0, 10)
+  }
+
+  /**
+   * Composes the midnight at the end of the day in the time zone
+   *
+   * @param date The day in YYYY-MM-DD format
+   * @param timeZone Time zone of the day (IANA name)
+   * @returns Time of the midnight
+   */
+  private composeMidnightAfter(date: string, timeZone: string): Date {
+    const [year, month, day] = date.split("-").map(Number)
+    const localMidnight = Date.UTC(year, month - 1, day + 1)
+
+    // The offset of the time zone is computed again for the shifted time, as
+    // it could be different around changes of daylight saving time
+    let midnight = localMidnight
+    for (let i = 0; i < 2; i++) {
+      const parts = this.splitTime(new Date(midnight), timeZone)
+      const offset =
+        Date.UTC(
+          parts.year,
+          parts.month - 1,
+          parts.day,
+          parts.hour,
+          parts.minute,
+          parts.second,
+        ) -
+        Math.floor(midnight / 1000) * 1000
+      midnight = localMidnight - offset
+    }
+
+    return new Date(midnight)
+  }
+
+  /**
+   * Splits the time into date and time parts in the time zone
+   *
+   * @param time The time
+   * @param timeZone Time zone (IANA name)
+   * @returns Parts of the local time (months are from 1)
+   */
+  private splitTime(time: Date, timeZone: string): Record<string, number> {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(time)
+
+    return Object.fromEntries(
+      parts
+        .filter((part) => part.type !== "literal")
+        .map((part) => [part.type, Number(part.value)]),
+    )
+  }
+}
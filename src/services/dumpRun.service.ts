@@ -0,0 +1,51 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Repository } from "typeorm"
+import { Service } from "typedi"
+
+import { DataSourceProvider } from "../providers"
+import { DumpRun } from "../entities"
+
+/**
+ * Service for managing runs of loading quotes from wiki dumps
+ */
+@Service()
+export class DumpRunService {
+  private readonly dumpRunRepository: Repository<DumpRun>
+
+  /**
+   * Constructor for DumpRunService
+   *
+   * @param dataSourceProvider Data source provider (dependency)
+   */
+  public constructor(dataSourceProvider: DataSourceProvider) {
+    this.dumpRunRepository = dataSourceProvider.provide().getRepository(DumpRun)
+  }
+
+  /**
+   * Fetches the latest dump runs
+   *
+   * @param limit Maximum number of fetched runs
+   * @returns List of dump runs (from the latest one)
+   */
+  public async fetchLatest(limit: number): Promise<DumpRun[]> {
+    return this.dumpRunRepository.find({
+      relations: { language: true },
+      order: { startedAt: "DESC" },
+      take: limit,
+    })
+  }
+
+  /**
+   * Saves the dump run to the database
+   *
+   * @param dumpRun Dump run to save
+   * @returns Saved dump run (initialized by ORM)
+   */
+  public async save(dumpRun: DumpRun): Promise<DumpRun> {
+    return await this.dumpRunRepository.save(dumpRun)
+  }
+}
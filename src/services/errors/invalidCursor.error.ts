@@ -0,0 +1,19 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+/**
+ * Custom error for cursors of paginated lists, which couldn't be decoded or don't match the list
+ */
+export class InvalidCursorError extends Error {
+  /**
+   * Constructor for InvalidCursorError
+   *
+   * @param message Error message (description for user of the logic producing the error)
+   */
+  public constructor(message: string) {
+    super(message)
+    this.name = "InvalidCursorError"
+  }
+}
@@ -3,6 +3,22 @@
  * @date 25th April 2025
  */
 
-export { AuthorService } from "./author.service"
+export { AiCacheService, CachedPrompt } from "./aiCache.service"
+export {
+  AuthorFilter,
+  AuthorSearchResult,
+  AuthorService,
+  AuthorSort,
+} from "./author.service"
+export { DailyQuoteService, QuoteOfDay } from "./dailyQuote.service"
+export { DumpRunService } from "./dumpRun.service"
 export { LanguageService } from "./language.service"
-export { QuoteService } from "./quote.service"
+export { PageService } from "./page.service"
+export {
+  PaginatedList,
+  Pagination,
+  PaginationService,
+  SortOrder,
+} from "./pagination.service"
+export { QuoteSearchResult, QuoteService, QuoteSort } from "./quote.service"
+export { QuoteTranslationService } from "./quoteTranslation.service"
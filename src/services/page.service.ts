@@ -0,0 +1,438 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Brackets, DataSource, EntityManager, Not, Repository } from "typeorm"
+import { Service } from "typedi"
+
+import { DataSourceProvider } from "../providers"
+import { Language, Page, Quote } from "../entities"
+
+import { NotFoundError } from "./errors/notFound.error"
+
+/**
+ * Service for managing Wiki quote pages the quotes were loaded from
+ */
+@Service()
+export class PageService {
+  /**
+   * Minimal estimated similarity of quotes to be considered near duplicates (from 0 to 1)
+   */
+  private readonly NEAR_DUPLICATE_SIMILARITY = 0.8
+
+  private readonly dataSource: DataSource
+  private readonly pageRepository: Repository<Page>
+
+  /**
+   * Constructor for PageService
+   *
+   * @param dataSourceProvider Data source provider (dependency)
+   */
+  public constructor(dataSourceProvider: DataSourceProvider) {
+    this.dataSource = dataSourceProvider.provide()
+
+    this.pageRepository = this.dataSource.getRepository(Page)
+  }
+
+  /**
+   * Fetches page by its identifier in the Wiki quote instance of the language
+   *
+   * @param language Language of the page
+   * @param pageId Identifier of the page in the Wiki quote instance
+   * @returns Found page
+   * @throws NotFoundError If the page is not in the database
+   */
+  public async fetchByPageId(
+    language: Language,
+    pageId: number,
+  ): Promise<Page> {
+    const page = await this.pageRepository.findOneBy({
+      language: { abbreviation: language.abbreviation },
+      pageId: pageId,
+    })
+
+    if (page === null) {
+      throw new NotFoundError(
+        `Page with ID ${String(pageId)} in language ${language.abbreviation} not found`,
+      )
+    }
+
+    return page
+  }
+
+  /**
+   * Saves the page to the database
+   *
+   * @param page Page to save
+   * @returns Saved page (initialized by ORM)
+   */
+  public async save(page: Page): Promise<Page> {
+    return await this.pageRepository.save(page)
+  }
+
+  /**
+   * Saves the page with quotes loaded from it and deletes its previous quotes
+   *
+   * Everything is done in a single transaction, so the page is never marked
+   * as processed without its quotes being saved. Quotes loaded before pages
+   * were tracked are not linked to the page, so they are matched by their
+   * source URL.
+   *
+   * Quotes are deduplicated (within the page and against other pages of the
+   * language) using their fingerprints (see QuoteFingerprinter). Only the copy
+   * with the higher score is kept, and sources of the others are recorded as
+   * its alternate sources. Previous quotes of the page that were found on other
+   * pages as well are moved to one of them instead of being deleted.
+   *
+   * @param page Page to save (with updated revision)
+   * @param quotes Quotes loaded from the current revision of the page (with fingerprints)
+   * @param pageUrl URL of the page (source of the quotes)
+   * @returns Saved page (initialized by ORM)
+   */
+  public async saveWithQuotes(
+    page: Page,
+    quotes: Quote[],
+    pageUrl: string,
+  ): Promise<Page> {
+    return await this.dataSource.transaction(async (entityManager) => {
+      await this.lockQuotes(entityManager, page.language)
+
+      const savedPage = await entityManager.save(page)
+
+      // Previous quotes found on other pages as well are kept for them
+      await this.moveToAlternateSources(
+        entityManager,
+        page.language,
+        [savedPage.id],
+        [pageUrl],
+      )
+      await entityManager
+        .createQueryBuilder()
+        .delete()
+        .from(Quote)
+        .where('"pageId" = :pageId', { pageId: savedPage.id })
+        .orWhere('"pageId" IS NULL AND source = :source', { source: pageUrl })
+        .execute()
+      // The page is added back by deduplication if it still has the quotes
+      await entityManager.query(
+        `UPDATE quote
+         SET "alternateSources" = array_remove("alternateSources", $1)
+         WHERE "languageAbbreviation" = $2 AND $1 = ANY("alternateSources")`,
+        [pageUrl, page.language.abbreviation],
+      )
+
+      const uniqueQuotes = await this.mergeDuplicates(
+        entityManager,
+        this.removeDuplicates(quotes),
+        pageUrl,
+        page.language,
+      )
+      for (const quote of uniqueQuotes) {
+        quote.page = savedPage
+      }
+      await entityManager.save(uniqueQuotes)
+
+      return savedPage
+    })
+  }
+
+  /**
+   * Prepares the database for deduplication of quotes
+   *
+   * Candidates for near duplicates are looked up by overlapping LSH bands,
+   * which requires a GIN index (otherwise all quotes of the language are
+   * scanned for every saved page).
+   */
+  public async prepareDeduplication(): Promise<void> {
+    await this.pageRepository.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_quote_lsh_bands" ON quote USING GIN ("lshBands")',
+    )
+  }
+
+  /**
+   * Composes URL of the page in the Wiki quote instance of the language
+   *
+   * The URL is used as the source of quotes loaded from the page.
+   *
+   * @param language Language of the page
+   * @param title Title of the page
+   * @returns URL of the page
+   */
+  public composeUrl(language: Language, title: string): string {
+    return `${this.composeUrlPrefix(language)}${title}`
+  }
+
+  /**
+   * Deletes all pages of the language (with quotes loaded from them)
+   *
+   * @param language Language of the pages
+   * @returns Number of deleted pages
+   */
+  public async deleteAllByLanguage(language: Language): Promise<number> {
+    const result = await this.pageRepository.delete({
+      language: { abbreviation: language.abbreviation },
+    })
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Removes duplicates among quotes of a single page (the higher score is kept)
+   *
+   * @param quotes Quotes loaded from the page (with fingerprints)
+   * @returns Quotes without duplicates (in the original order)
+   */
+  private removeDuplicates(quotes: Quote[]): Quote[] {
+    const uniqueQuotes = new Set<Quote>()
+    for (const quote of [...quotes].sort((a, b) => b.score - a.score)) {
+      if (
+        ![...uniqueQuotes].some((unique) => this.isDuplicate(quote, unique))
+      ) {
+        uniqueQuotes.add(quote)
+      }
+    }
+
+    return quotes.filter((quote) => uniqueQuotes.has(quote))
+  }
+
+  /**
+   * Merges quotes of the page with their duplicates from other pages of the language
+   *
+   * If the stored duplicate has the same or higher score, the page is recorded
+   * as its alternate source, and the new quote is dropped. Otherwise, the new
+   * quote replaces the stored one and takes over its sources.
+   *
+   * @param entityManager Entity manager of the running transaction
+   * @param quotes Quotes of the page without mutual duplicates (with fingerprints)
+   * @param pageUrl URL of the page (source of the quotes)
+   * @param language Language of the page
+   * @returns Quotes of the page to save
+   */
+  private async mergeDuplicates(
+    entityManager: EntityManager,
+    quotes: Quote[],
+    pageUrl: string,
+    language: Language,
+  ): Promise<Quote[]> {
+    const hashes = quotes.flatMap((quote) => quote.normalizedHash ?? [])
+    const bands = quotes.flatMap((quote) => quote.lshBands ?? [])
+    if (hashes.length === 0) {
+      return quotes
+    }
+
+    // Candidates are stored quotes with the same text or any matching LSH band
+    const candidates = await entityManager
+      .createQueryBuilder(Quote, "quote")
+      .leftJoinAndSelect("quote.translation", "translation")
+      .where('quote."languageAbbreviation" = :langAbbr', {
+        langAbbr: language.abbreviation,
+      })
+      .andWhere(
+        new Brackets((queryBuilder) => {
+          queryBuilder
+            .where('quote."normalizedHash" IN (:...hashes)', { hashes: hashes })
+            .orWhere('quote."lshBands" && CAST(:bands AS int[])', {
+              bands: bands,
+            })
+        }),
+      )
+      .getMany()
+
+    const uniqueQuotes: Quote[] = []
+    const updatedDuplicates = new Set<Quote>()
+    const replacedDuplicates: Quote[] = []
+    for (const quote of [...quotes].sort((a, b) => b.score - a.score)) {
+      const duplicateIndex = candidates.findIndex((candidate) =>
+        this.isDuplicate(quote, candidate),
+      )
+      if (duplicateIndex === -1) {
+        uniqueQuotes.push(quote)
+        continue
+      }
+
+      const duplicate = candidates[duplicateIndex]
+      if (duplicate.score >= quote.score) {
+        if (
+          duplicate.source !== pageUrl &&
+          !duplicate.alternateSources.includes(pageUrl)
+        ) {
+          duplicate.alternateSources.push(pageUrl)
+          updatedDuplicates.add(duplicate)
+        }
+        continue
+      }
+
+      quote.alternateSources = [
+        ...new Set([duplicate.source, ...duplicate.alternateSources]),
+      ].filter((source) => source !== pageUrl)
+      // The same quote has the same translations
+      quote.translation ??= duplicate.translation
+      uniqueQuotes.push(quote)
+
+      candidates.splice(duplicateIndex, 1)
+      updatedDuplicates.delete(duplicate)
+      replacedDuplicates.push(duplicate)
+    }
+
+    await entityManager.remove(replacedDuplicates)
+    await entityManager.save([...updatedDuplicates])
+
+    return quotes.filter((quote) => uniqueQuotes.includes(quote))
+  }
+
+  /**
+   * Checks if the quotes are duplicates (exact or near ones)
+   *
+   * Near duplicates are detected by estimated Jaccard similarity, which is
+   * the ratio of matching values of their MinHash signatures.
+   *
+   * @param first The first quote (with fingerprints)
+   * @param second The second quote (with fingerprints)
+   * @returns Are the quotes duplicates? (false for quotes without fingerprints)
+   */
+  private isDuplicate(first: Quote, second: Quote): boolean {
+    if (first.normalizedHash === null || second.normalizedHash === null) {
+      return false
+    } else if (first.normalizedHash === second.normalizedHash) {
+      return true
+    }
+
+    const firstSignature = first.minHash ?? []
+    const secondSignature = second.minHash ?? []
+    const matches = firstSignature.filter(
+      (value, index) => value === secondSignature[index],
+    ).length
+
+    return (
+      firstSignature.length > 0 &&
+      matches / firstSignature.length >= this.NEAR_DUPLICATE_SIMILARITY
+    )
+  }
+
+  /**
+   * Deletes pages of the language that weren't seen in the selected dump
+   *
+   * Quotes loaded from the deleted pages are deleted as well, unless they were
+   * found on other pages too (then they are moved to one of them). URLs of
+   * the deleted pages are removed from alternate sources of other quotes.
+   *
+   * @param language Language of the pages
+   * @param dumpName Name of the dump, which contains all current pages
+   * @returns Number of deleted pages
+   */
+  public async deleteAllNotSeenIn(
+    language: Language,
+    dumpName: string,
+  ): Promise<number> {
+    return await this.dataSource.transaction(async (entityManager) => {
+      await this.lockQuotes(entityManager, language)
+
+      const pages = await entityManager.find(Page, {
+        select: { id: true, title: true },
+        where: {
+          language: { abbreviation: language.abbreviation },
+          lastSeenDump: Not(dumpName),
+        },
+      })
+
+      // Delete with an empty criteria is not allowed
+      if (pages.length === 0) {
+        return 0
+      }
+
+      // Deleted pages can't be alternate sources (so quotes aren't moved to them)
+      const pageUrls = pages.map((page) =>
+        this.composeUrl(language, page.title),
+      )
+      await entityManager.query(
+        `UPDATE quote
+         SET "alternateSources" = ARRAY(SELECT source FROM unnest("alternateSources") AS source WHERE source <> ALL($1))
+         WHERE "languageAbbreviation" = $2 AND "alternateSources" && CAST($1 AS varchar[])`,
+        [pageUrls, language.abbreviation],
+      )
+      await this.moveToAlternateSources(
+        entityManager,
+        language,
+        pages.map((page) => page.id),
+        [],
+      )
+
+      await entityManager.delete(
+        Page,
+        pages.map((page) => page.id),
+      )
+
+      return pages.length
+    })
+  }
+
+  /**
+   * Locks quotes of the language until the end of the running transaction
+   *
+   * Pages are processed concurrently, but their quotes are deduplicated
+   * against each other, so changes of quotes of the same language are done
+   * one by one.
+   *
+   * @param entityManager Entity manager of the running transaction
+   * @param language Language of the quotes
+   */
+  private async lockQuotes(
+    entityManager: EntityManager,
+    language: Language,
+  ): Promise<void> {
+    await entityManager.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+      `quotes:${language.abbreviation}`,
+    ])
+  }
+
+  /**
+   * Moves quotes of the pages to their first alternate sources
+   *
+   * Only quotes found on other pages as well are moved (the others are kept
+   * as they are). Moved quotes are linked to the stored pages of their new
+   * sources, so their revision provenance is kept.
+   *
+   * @param entityManager Entity manager of the running transaction
+   * @param language Language of the pages
+   * @param pageIds Identifiers of the pages (in the database)
+   * @param sources URLs of the pages for quotes loaded before pages were tracked (they aren't linked to pages)
+   */
+  private async moveToAlternateSources(
+    entityManager: EntityManager,
+    language: Language,
+    pageIds: number[],
+    sources: string[],
+  ): Promise<void> {
+    await entityManager.query(
+      `UPDATE quote
+       SET source = "alternateSources"[1],
+           "alternateSources" = "alternateSources"[2:],
+           "pageId" = (
+             SELECT page.id
+             FROM page
+             WHERE page."languageAbbreviation" = quote."languageAbbreviation" AND CAST($3 AS text) || page.title = quote."alternateSources"[1]
+             LIMIT 1
+           )
+       WHERE "languageAbbreviation" = $4
+         AND ("pageId" = ANY($1) OR ("pageId" IS NULL AND source = ANY($2)))
+         AND cardinality("alternateSources") > 0`,
+      [
+        pageIds,
+        sources,
+        this.composeUrlPrefix(language),
+        language.abbreviation,
+      ],
+    )
+  }
+
+  /**
+   * Composes the common prefix of URLs of pages in the Wiki quote instance of the language
+   *
+   * @param language Language of the pages
+   * @returns Prefix of URLs (followed by page titles)
+   */
+  private composeUrlPrefix(language: Language): string {
+    return `https://${language.abbreviation}.wikiquote.org/wiki/`
+  }
+}
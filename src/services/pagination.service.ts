@@ -0,0 +1,179 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { Service } from "typedi"
+import { SelectQueryBuilder } from "typeorm"
+
+import { InvalidCursorError } from "./errors/invalidCursor.error"
+
+/**
+ * Order of sorted items (ascending or descending)
+ */
+export type SortOrder = "asc" | "desc"
+
+/**
+ * Selection of a page of a list
+ *
+ * @property limit Maximum number of items on the page
+ * @property cursor Cursor of the page (returned with the previous page), undefined for the first page
+ * @property sort Name of the sort key
+ * @property order Order of items by the sort key
+ */
+export interface Pagination<S extends string> {
+  limit: number
+
+  cursor?: string
+
+  sort: S
+
+  order: SortOrder
+}
+
+/**
+ * Page of a list
+ *
+ * @property items Items on the page
+ * @property total Total number of items in the list (on all pages)
+ * @property nextCursor Cursor of the next page, null for the last page
+ */
+export interface PaginatedList<T> {
+  items: T[]
+
+  total: number
+
+  nextCursor: string | null
+}
+
+/**
+ * Key for sorting items of a list
+ *
+ * @property column Sorted column of the query (e.g., "quote.score")
+ * @property value Function returning the value of the column for the item
+ */
+export interface SortKey<T> {
+  column: string
+
+  value: (item: T) => string | number
+}
+
+/**
+ * Service for cursor-based (keyset) pagination of lists
+ *
+ * Items are sorted by the sort key and then by their identifiers (for a stable
+ * order of items with the same value), and the cursor holds the values of the
+ * last item on the page. The next page starts right after this item, so the
+ * database doesn't go through the previous pages, and pages aren't shifted by
+ * added or deleted items.
+ */
+@Service()
+export class PaginationService {
+  /**
+   * Fetches the page of the list of items selected by the query
+   *
+   * @param queryBuilder Query of all items of the list (the main alias is for the items)
+   * @param pagination Selection of the page
+   * @param sortKeys Sort keys available for the list by their names
+   * @returns Page of the list
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
+   */
+  public async paginate<T extends { id: number }, S extends string>(
+    queryBuilder: SelectQueryBuilder<T>,
+    pagination: Pagination<S>,
+    sortKeys: Record<S, SortKey<T>>,
+  ): Promise<PaginatedList<T>> {
+    const sortKey = sortKeys[pagination.sort]
+    const idColumn = `${queryBuilder.alias}.id`
+    const direction = pagination.order === "asc" ? "ASC" : "DESC"
+
+    const total = await queryBuilder.getCount()
+
+    if (pagination.cursor !== undefined) {
+      const [value, id] = this.decodeCursor(pagination.cursor, pagination)
+
+      queryBuilder.andWhere(
+        `(${sortKey.column}, ${idColumn}) ${direction === "ASC" ? ">" : "<"} (:cursorValue, :cursorId)`,
+        { cursorValue: value, cursorId: id },
+      )
+    }
+
+    // One more item is fetched to find out if there is a next page
+    const items = await queryBuilder
+      .orderBy(sortKey.column, direction)
+      .addOrderBy(idColumn, direction)
+      .take(pagination.limit + 1)
+      .getMany()
+
+    let nextCursor: string | null = null
+    if (items.length > pagination.limit) {
+      items.pop()
+
+      const lastItem = items[items.length - 1]
+      nextCursor = this.encodeCursor(
+        pagination,
+        sortKey.value(lastItem),
+        lastItem.id,
+      )
+    }
+
+    return { items: items, total: total, nextCursor: nextCursor }
+  }
+
+  /**
+   * Encodes the cursor pointing right after the item
+   *
+   * The cursor contains the sort key and order as well, so it couldn't be used
+   * for the list sorted in another way.
+   *
+   * @param pagination Selection of the page with the item
+   * @param value Value of the sort key of the item
+   * @param id Identifier of the item
+   * @returns Cursor (URL-safe string)
+   */
+  private encodeCursor<S extends string>(
+    pagination: Pagination<S>,
+    value: string | number,
+    id: number,
+  ): string {
+    return Buffer.from(
+      JSON.stringify([pagination.sort, pagination.order, value, id]),
+    ).toString("base64url")
+  }
+
+  /**
+   * Decodes the cursor (see encodeCursor())
+   *
+   * @param cursor Cursor of the page
+   * @param pagination Selection of the page (the cursor must be for the same sort key and order)
+   * @returns Value of the sort key and identifier of the item before the page
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
+   */
+  private decodeCursor<S extends string>(
+    cursor: string,
+    pagination: Pagination<S>,
+  ): [string | number, number] {
+    let values: unknown
+    try {
+      values = JSON.parse(Buffer.from(cursor, "base64url").toString())
+    } catch {
+      throw new InvalidCursorError(`Cursor ${cursor} is malformed`)
+    }
+
+    if (
+      !Array.isArray(values) ||
+      values.length !== 4 ||
+      !["string", "number"].includes(typeof values[2]) ||
+      !Number.isInteger(values[3])
+    ) {
+      throw new InvalidCursorError(`Cursor ${cursor} is malformed`)
+    }
+    if (values[0] !== pagination.sort || values[1] !== pagination.order) {
+      throw new InvalidCursorError(
+        `Cursor ${cursor} is not for the list sorted by ${pagination.sort} (${pagination.order})`,
+      )
+    }
+
+    return [values[2] as string | number, values[3] as number]
+  }
+}
@@ -3,48 +3,218 @@
  * @date 25th April 2025
  */
 
-import { Repository } from "typeorm"
+import { Repository, SelectQueryBuilder } from "typeorm"
+import { PostgresDriver } from "typeorm/driver/postgres/PostgresDriver"
 import { Service } from "typedi"
 
 import { DataSourceProvider } from "../providers"
 import { Author, Language, Quote } from "../entities"
 
 import { NotFoundError } from "./errors/notFound.error"
+import {
+  PaginatedList,
+  Pagination,
+  PaginationService,
+} from "./pagination.service"
+
+/**
+ * Names of sort keys of quotes
+ */
+export type QuoteSort = "id" | "score" | "author"
+
+/**
+ * Quote found by full-text search
+ *
+ * @property quote Found quote
+ * @property rank Relevance of the quote for the search query (higher is better)
+ * @property snippet Text of the quote with matched words wrapped in <mark> tags (shortened to the most relevant parts)
+ */
+export interface QuoteSearchResult {
+  quote: Quote
+
+  rank: number
+
+  snippet: string
+}
+
+/**
+ * Identifiers of quotes in a language for drawing random quotes
+ *
+ * @property ids Identifiers of all quotes in the language
+ * @property idsByAuthor Identifiers of quotes in the language by identifiers of their authors
+ */
+interface QuoteIdPool {
+  ids: number[]
+
+  idsByAuthor: Map<number, number[]>
+}
+
+/**
+ * Database connection receiving notifications (a client of the pg library)
+ */
+interface NotificationClient {
+  on(
+    event: "notification",
+    listener: (notification: { channel: string; payload?: string }) => void,
+  ): void
+  on(event: "error", listener: (error: Error) => void): void
+
+  query(sql: string): Promise<unknown>
+}
 
 /**
  * Service for managing quotes
+ *
+ * Random quotes are drawn from pools of quote identifiers kept in memory, as
+ * sorting all quotes of the language randomly by the database is too slow.
  */
 @Service()
 export class QuoteService {
+  /**
+   * Options of ts_headline() for creating snippets of found quotes
+   */
+  private readonly SNIPPET_OPTIONS =
+    'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+  /**
+   * Time after which pools of quote identifiers are loaded again (in milliseconds)
+   */
+  private readonly ID_POOL_TTL = 5 * 60 * 1000
+  /**
+   * Minimum time between forced loads of pools of quote identifiers (in milliseconds)
+   *
+   * Requests for authors without quotes would load the pool again otherwise.
+   */
+  private readonly ID_POOL_RELOAD_INTERVAL = 10 * 1000
+  /**
+   * Channel of database notifications about invalidated pools (with language abbreviations as payloads)
+   */
+  private readonly ID_POOL_CHANNEL = "quote_id_pools"
+
+  /**
+   * Pools of quote identifiers (being loaded) by language abbreviations with their load and expiration times
+   */
+  private readonly idPools = new Map<
+    string,
+    { pool: Promise<QuoteIdPool>; loadedAt: number; expiresAt: number }
+  >()
+
   private readonly quoteRepository: Repository<Quote>
 
   /**
    * Constructor for QuoteService
    *
    * @param dataSourceProvider Data source provider (dependency)
+   * @param paginationService Pagination service (dependency)
    */
-  public constructor(dataSourceProvider: DataSourceProvider) {
+  public constructor(
+    dataSourceProvider: DataSourceProvider,
+    private readonly paginationService: PaginationService,
+  ) {
     const dataSource = dataSourceProvider.provide()
 
     this.quoteRepository = dataSource.getRepository(Quote)
   }
 
   /**
-   * Fetches all quotes
+   * Fetches the page of quotes in the selected language
    *
-   * @returns List of quotes
+   * Quotes could be sorted by their identifiers, scores or translated names
+   * of their authors (in the selected language).
+   *
+   * @param language Selected language
+   * @param pagination Selection of the page
+   * @returns Page of the list of quotes
+   * @throws InvalidCursorError If the cursor is malformed or it's from the list sorted in another way
    */
-  public async fetchAllByLanguage(language: Language): Promise<Quote[]> {
-    return this.quoteRepository.find({
-      where: {
-        language: language,
-        author: { translatedFullNames: { language: language } },
-      },
-      relations: {
+  public async fetchPageByLanguage(
+    language: Language,
+    pagination: Pagination<QuoteSort>,
+  ): Promise<PaginatedList<Quote>> {
+    return this.paginationService.paginate(
+      this.quoteRepository
+        .createQueryBuilder("quote")
+        .leftJoinAndSelect("quote.author", "author")
+        .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+        .leftJoinAndSelect("quote.page", "page")
+        .where("quote.languageAbbreviation = :langAbbr", {
+          langAbbr: language.abbreviation,
+        })
+        .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
+          langAbbr: language.abbreviation,
+        }),
+      pagination,
+      {
+        id: { column: "quote.id", value: (quote) => quote.id },
+        score: { column: "quote.score", value: (quote) => quote.score },
+        // Only the name in the selected language is joined
         author: {
-          translatedFullNames: true,
+          column: "translatedFullName.fullName",
+          value: (quote) =>
+            quote.author.translatedFullNames?.[0].fullName ?? "",
         },
       },
+    )
+  }
+
+  /**
+   * Searches quotes in the selected language by their texts
+   *
+   * The query could use web search syntax ("quoted phrases", OR, -excluded
+   * words). Words are matched regardless of diacritics and, if the language's
+   * text search configuration has a stemmer, regardless of their forms.
+   *
+   * @param language Selected language
+   * @param query Search query
+   * @param limit Maximum number of found quotes
+   * @returns Found quotes from the most relevant (empty if quotes in the language aren't indexed yet)
+   */
+  public async search(
+    language: Language,
+    query: string,
+    limit: number,
+  ): Promise<QuoteSearchResult[]> {
+    const searchConfig = this.composeSearchConfigName(language)
+    if (!(await this.existsSearchConfig(searchConfig))) {
+      return []
+    }
+
+    const tsQuery =
+      "websearch_to_tsquery(CAST(:searchConfig AS regconfig), :query)"
+    const { entities, raw } = await this.quoteRepository
+      .createQueryBuilder("quote")
+      .leftJoinAndSelect("quote.author", "author")
+      .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+      .leftJoinAndSelect("quote.page", "page")
+      .addSelect(`ts_rank_cd(quote.searchVector, ${tsQuery})`, "rank")
+      .addSelect(
+        `ts_headline(CAST(:searchConfig AS regconfig), quote.text, ${tsQuery}, :snippetOptions)`,
+        "snippet",
+      )
+      .where("quote.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .andWhere(`quote.searchVector @@ ${tsQuery}`)
+      .setParameters({
+        searchConfig: searchConfig,
+        query: query,
+        snippetOptions: this.SNIPPET_OPTIONS,
+      })
+      .orderBy("rank", "DESC")
+      .addOrderBy("quote.id", "ASC")
+      .limit(limit)
+      .getRawAndEntities<{ quote_id: number; rank: number; snippet: string }>()
+
+    const rows = new Map(raw.map((row) => [row.quote_id, row]))
+
+    return entities.flatMap((quote) => {
+      const row = rows.get(quote.id)
+
+      return row === undefined
+        ? []
+        : [{ quote: quote, rank: row.rank, snippet: row.snippet }]
     })
   }
 
@@ -68,31 +238,100 @@ export class QuoteService {
         author: {
           translatedFullNames: true,
         },
+        page: true,
       },
     })
   }
 
   /**
-   * Fetches a random quote in the selected language
+   * Fetches the quote in the selected language by its identifier
    *
    * @param language Selected language
-   * @returns Random quote
-   * @throws NotFoundError If no quote is found for the selected language in the database
+   * @param id Identifier of the quote
+   * @returns Found quote
+   * @throws NotFoundError If the quote is not in the database (in the selected language)
    */
-  public async fetchRandomQuoteByLanguage(language: Language): Promise<Quote> {
-    const quote = await this.quoteRepository
+  public async fetchById(language: Language, id: number): Promise<Quote> {
+    const quote = await this.quoteRepository.findOne({
+      where: {
+        id: id,
+        language: { abbreviation: language.abbreviation },
+        author: { translatedFullNames: { language: language } },
+      },
+      relations: {
+        author: {
+          translatedFullNames: true,
+        },
+        page: true,
+        translation: true,
+      },
+    })
+
+    if (quote === null) {
+      throw new NotFoundError(
+        `Quote with ID ${String(id)} in language ${language.abbreviation} not found`,
+      )
+    }
+
+    return quote
+  }
+
+  /**
+   * Fetches translations of the quote into other languages
+   *
+   * Translated full names of authors are fetched in the languages of the translations.
+   *
+   * @param quote Quote with loaded translation group
+   * @returns List of translations (empty if the quote has no known translations)
+   */
+  public async fetchTranslations(quote: Quote): Promise<Quote[]> {
+    if (!quote.translation) {
+      return []
+    }
+
+    return this.quoteRepository
       .createQueryBuilder("quote")
+      .leftJoinAndSelect("quote.language", "language")
       .leftJoinAndSelect("quote.author", "author")
       .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
-      .where("quote.languageAbbreviation = :langAbbr", {
-        langAbbr: language.abbreviation,
-      })
-      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
-        langAbbr: language.abbreviation,
+      .leftJoinAndSelect("quote.page", "page")
+      .where("quote.translationId = :translationId", {
+        translationId: quote.translation.id,
       })
-      .orderBy("RANDOM()")
-      .limit(1)
-      .getOne()
+      .andWhere("quote.id != :quoteId", { quoteId: quote.id })
+      .andWhere(
+        "translatedFullName.languageAbbreviation = quote.languageAbbreviation",
+      )
+      .orderBy("quote.languageAbbreviation")
+      .getMany()
+  }
+
+  /**
+   * Fetches all quotes authored by the selected author (in all languages)
+   *
+   * Quotes are fetched with their languages and translation groups, from
+   * the highest score.
+   *
+   * @param author Selected author
+   * @returns List of quotes
+   */
+  public async fetchAllByAuthor(author: Author): Promise<Quote[]> {
+    return this.quoteRepository.find({
+      where: { author: { id: author.id } },
+      relations: { language: true, translation: true },
+      order: { score: "DESC", id: "ASC" },
+    })
+  }
+
+  /**
+   * Fetches a random quote in the selected language
+   *
+   * @param language Selected language
+   * @returns Random quote
+   * @throws NotFoundError If no quote is found for the selected language in the database
+   */
+  public async fetchRandomQuoteByLanguage(language: Language): Promise<Quote> {
+    const quote = await this.fetchRandomQuote(language, null)
 
     if (quote === null) {
       throw new NotFoundError(
@@ -115,22 +354,7 @@ export class QuoteService {
     language: Language,
     author: Author,
   ): Promise<Quote> {
-    const quote = await this.quoteRepository
-      .createQueryBuilder("quote")
-      .leftJoinAndSelect("quote.author", "author")
-      .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
-      .where("quote.languageAbbreviation = :langAbbr", {
-        langAbbr: language.abbreviation,
-      })
-      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
-        langAbbr: language.abbreviation,
-      })
-      .andWhere("quote.authorId = :authorId", {
-        authorId: author.id,
-      })
-      .orderBy("RANDOM()")
-      .limit(1)
-      .getOne()
+    const quote = await this.fetchRandomQuote(language, author)
 
     if (quote === null) {
       throw new NotFoundError(
@@ -141,6 +365,143 @@ export class QuoteService {
     return quote
   }
 
+  /**
+   * Invalidates pools of quote identifiers of the language in all processes
+   *
+   * It should be called after quotes of the language are changed, so random
+   * quotes are drawn from the changed quotes immediately (instead of after
+   * the pools expire). Other processes (the API server) are notified through
+   * the database (see listenForIdPoolInvalidations()).
+   *
+   * @param language Selected language
+   */
+  public async invalidateIdPools(language: Language): Promise<void> {
+    this.idPools.delete(language.abbreviation)
+
+    await this.quoteRepository.query("SELECT pg_notify($1, $2)", [
+      this.ID_POOL_CHANNEL,
+      language.abbreviation,
+    ])
+  }
+
+  /**
+   * Starts listening for invalidations of pools of quote identifiers
+   *
+   * A dedicated database connection is kept for receiving notifications sent
+   * by invalidateIdPools() (from the admin CLI, for example). If the
+   * connection is lost, pools are still loaded again after they expire.
+   */
+  public async listenForIdPoolInvalidations(): Promise<void> {
+    const driver = this.quoteRepository.manager.connection
+      .driver as PostgresDriver
+    const [client, release] = (await driver.obtainMasterConnection()) as [
+      NotificationClient,
+      (error?: Error) => void,
+    ]
+
+    client.on("notification", (notification) => {
+      if (
+        notification.channel === this.ID_POOL_CHANNEL &&
+        notification.payload !== undefined
+      ) {
+        this.idPools.delete(notification.payload)
+      }
+    })
+    client.on("error", (error) => {
+      console.error(error)
+      console.log(
+        "[WARNING] Stopped listening for invalidations of random quote pools, they are loaded again only after they expire",
+      )
+
+      // The broken connection must not return to the connection pool
+      release(error)
+    })
+
+    await client.query(`LISTEN ${this.ID_POOL_CHANNEL}`)
+  }
+
+  /**
+   * Indexes new quotes in the selected language for full-text search
+   *
+   * Texts are indexed by a text search configuration derived from the one of
+   * the language (see Language.textSearchConfig), which removes diacritics
+   * before the words are processed (so "prilis" matches "příliš"). Only quotes
+   * without search vectors are indexed, as texts of quotes never change.
+   *
+   * The derived configuration, the unaccent extension, and the GIN index of
+   * search vectors aren't managed by the ORM, so they are created here if
+   * they are missing.
+   *
+   * @param language Selected language
+   * @returns Number of indexed quotes
+   * @throws Error If the language's text search configuration has an invalid name
+   */
+  public async indexForSearch(language: Language): Promise<number> {
+    const baseConfig = language.textSearchConfig
+    if (!/^[a-z_]+$/.test(baseConfig)) {
+      throw new Error(
+        `Invalid text search configuration ${baseConfig} of language ${language.abbreviation}`,
+      )
+    }
+
+    const searchConfig = this.composeSearchConfigName(language)
+    await this.quoteRepository.query("CREATE EXTENSION IF NOT EXISTS unaccent")
+    if (!(await this.existsSearchConfig(searchConfig))) {
+      // Words of built-in configurations are processed by <name>_stem
+      // dictionaries (except for the simple one, which has no stemmer)
+      const dictionary =
+        baseConfig === "simple" ? "simple" : `${baseConfig}_stem`
+
+      await this.quoteRepository.query(
+        `CREATE TEXT SEARCH CONFIGURATION ${searchConfig} (COPY = ${baseConfig})`,
+      )
+      await this.quoteRepository.query(
+        `ALTER TEXT SEARCH CONFIGURATION ${searchConfig} ALTER MAPPING FOR hword, hword_part, word WITH unaccent, ${dictionary}`,
+      )
+    }
+    await this.quoteRepository.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_quote_search_vector" ON quote USING GIN ("searchVector")',
+    )
+
+    const result = await this.quoteRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        searchVector: () =>
+          'to_tsvector(CAST(:searchConfig AS regconfig), "text")',
+      })
+      .where('"languageAbbreviation" = :langAbbr AND "searchVector" IS NULL', {
+        langAbbr: language.abbreviation,
+      })
+      .setParameter("searchConfig", searchConfig)
+      .execute()
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Resets the full-text search index of quotes in the selected language
+   *
+   * The derived text search configuration is dropped and search vectors of
+   * the quotes are cleared, so they are indexed again by the current
+   * configuration of the language (see indexForSearch()).
+   *
+   * @param language Selected language
+   */
+  public async resetSearchIndex(language: Language): Promise<void> {
+    await this.quoteRepository.query(
+      `DROP TEXT SEARCH CONFIGURATION IF EXISTS ${this.composeSearchConfigName(language)}`,
+    )
+    await this.quoteRepository
+      .createQueryBuilder()
+      .update()
+      .set({ searchVector: null })
+      .where('"languageAbbreviation" = :langAbbr', {
+        langAbbr: language.abbreviation,
+      })
+      .execute()
+  }
+
   /**
    * Counts the number of quotes in the database
    */
@@ -151,9 +512,231 @@ export class QuoteService {
   /**
    * Saves a list of quotes to the database
    *
+   * Quotes saved outside of loading aren't indexed by the loader, so they are
+   * indexed for full-text search right away.
+   *
    * @param quotes List of quotes to save
+   * @throws Error If a text search configuration of their languages has an invalid name
    */
   public async saveAll(quotes: Quote[]): Promise<void> {
     await this.quoteRepository.save(quotes)
+
+    const languages = new Map(
+      quotes.map((quote) => [quote.language.abbreviation, quote.language]),
+    )
+    for (const language of languages.values()) {
+      await this.indexForSearch(language)
+    }
+  }
+
+  /**
+   * Deletes all quotes in the selected language
+   *
+   * @param language Selected language
+   * @returns Number of deleted quotes
+   */
+  public async deleteAllByLanguage(language: Language): Promise<number> {
+    const result = await this.quoteRepository.delete({
+      language: { abbreviation: language.abbreviation },
+    })
+
+    return result.affected ?? 0
+  }
+
+  /**
+   * Composes the name of the text search configuration for searching quotes
+   *
+   * @param language Language of the quotes
+   * @returns Name of the configuration (derived from the language's one, see indexForSearch())
+   */
+  private composeSearchConfigName(language: Language): string {
+    return `quote_search_${language.abbreviation}`
+  }
+
+  /**
+   * Checks if the text search configuration exists in the database
+   *
+   * @param name Name of the configuration
+   * @returns Does the configuration exist?
+   */
+  private async existsSearchConfig(name: string): Promise<boolean> {
+    const rows = (await this.quoteRepository.query(
+      "SELECT 1 FROM pg_ts_config WHERE cfgname = $1",
+      [name],
+    )) as unknown[]
+
+    return rows.length > 0
+  }
+
+  /**
+   * Fetches a random quote from the pool of quote identifiers of the language
+   *
+   * Identifiers are drawn uniformly, so all quotes have the same chance. If the
+   * drawn quote was deleted after loading the pool (by loading a new dump),
+   * or there is no identifier to draw (e.g., for a newly loaded author), the
+   * pool is loaded again and another identifier is drawn.
+   *
+   * The pool isn't loaded again if it was loaded just now, so it could still
+   * miss the last changes of quotes. The quote is then drawn by the database,
+   * which is slow, but it's needed only rarely.
+   *
+   * @param language Selected language
+   * @param author Selected author (null for quotes of all authors)
+   * @returns Random quote or null if there are no quotes to draw from
+   */
+  private async fetchRandomQuote(
+    language: Language,
+    author: Author | null,
+  ): Promise<Quote | null> {
+    for (const reload of [false, true]) {
+      const pool = await this.provideIdPool(language, reload)
+      const ids = author === null ? pool.ids : pool.idsByAuthor.get(author.id)
+      if (ids === undefined || ids.length === 0) {
+        continue
+      }
+
+      const quote = await this.fetchDrawnQuote(
+        language,
+        ids[Math.floor(Math.random() * ids.length)],
+      )
+      if (quote !== null) {
+        return quote
+      }
+    }
+
+    const drawQuery = this.createIdPoolQuery(language)
+      .select("quote.id", "id")
+      .orderBy("RANDOM()")
+      .limit(1)
+    if (author !== null) {
+      drawQuery.andWhere("quote.authorId = :authorId", { authorId: author.id })
+    }
+    const drawnRow = await drawQuery.getRawOne<{ id: number }>()
+
+    return drawnRow === undefined
+      ? null
+      : this.fetchDrawnQuote(language, drawnRow.id)
+  }
+
+  /**
+   * Fetches the drawn quote with its author and page
+   *
+   * @param language Language of the quote
+   * @param id Identifier of the quote
+   * @returns The quote or null if it doesn't exist (or its author has no name in the language)
+   */
+  private async fetchDrawnQuote(
+    language: Language,
+    id: number,
+  ): Promise<Quote | null> {
+    return this.quoteRepository
+      .createQueryBuilder("quote")
+      .leftJoinAndSelect("quote.author", "author")
+      .leftJoinAndSelect("author.translatedFullNames", "translatedFullName")
+      .leftJoinAndSelect("quote.page", "page")
+      .where("quote.id = :id", { id: id })
+      .andWhere("translatedFullName.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
+      .getOne()
+  }
+
+  /**
+   * Provides the pool of quote identifiers of the language
+   *
+   * Pools are kept in memory until they are invalidated (see
+   * invalidateIdPools()) or expire, so newly loaded quotes are drawn since
+   * then. Concurrent requests share the pool being loaded.
+   *
+   * @param language Selected language
+   * @param reload Load the pool again even if it hasn't expired yet (unless it was loaded just now)
+   * @returns Pool of quote identifiers
+   */
+  private async provideIdPool(
+    language: Language,
+    reload: boolean,
+  ): Promise<QuoteIdPool> {
+    const abbreviation = language.abbreviation
+
+    const cachedPool = this.idPools.get(abbreviation)
+    if (
+      cachedPool !== undefined &&
+      cachedPool.expiresAt > Date.now() &&
+      (!reload ||
+        cachedPool.loadedAt + this.ID_POOL_RELOAD_INTERVAL > Date.now())
+    ) {
+      return cachedPool.pool
+    }
+
+    const pool = this.loadIdPool(language)
+    const cachedEntry = {
+      pool: pool,
+      loadedAt: Date.now(),
+      expiresAt: Date.now() + this.ID_POOL_TTL,
+    }
+    this.idPools.set(abbreviation, cachedEntry)
+
+    try {
+      return await pool
+    } catch (error) {
+      // Failed loading isn't cached, so the next request tries it again
+      if (this.idPools.get(abbreviation) === cachedEntry) {
+        this.idPools.delete(abbreviation)
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Loads identifiers of all quotes in the language from the database
+   *
+   * Only quotes, which could be drawn, are included (see createIdPoolQuery()).
+   *
+   * @param language Selected language
+   * @returns Pool of quote identifiers
+   */
+  private async loadIdPool(language: Language): Promise<QuoteIdPool> {
+    const rows = await this.createIdPoolQuery(language)
+      .select("quote.id", "id")
+      .addSelect("quote.authorId", "authorId")
+      .getRawMany<{ id: number; authorId: number }>()
+
+    const pool: QuoteIdPool = { ids: [], idsByAuthor: new Map() }
+    for (const row of rows) {
+      pool.ids.push(row.id)
+
+      const authorIds = pool.idsByAuthor.get(row.authorId)
+      if (authorIds === undefined) {
+        pool.idsByAuthor.set(row.authorId, [row.id])
+      } else {
+        authorIds.push(row.id)
+      }
+    }
+
+    return pool
+  }
+
+  /**
+   * Creates the query for quotes in the language, which could be drawn as random ones
+   *
+   * Only quotes whose authors have names in the language are included (the
+   * same quotes as returned by other methods).
+   *
+   * @param language Selected language
+   * @returns Query builder for the quotes (with the "quote" alias)
+   */
+  private createIdPoolQuery(language: Language): SelectQueryBuilder<Quote> {
+    return this.quoteRepository
+      .createQueryBuilder("quote")
+      .innerJoin("quote.author", "author")
+      .innerJoin(
+        "author.translatedFullNames",
+        "translatedFullName",
+        "translatedFullName.languageAbbreviation = :langAbbr",
+      )
+      .where("quote.languageAbbreviation = :langAbbr", {
+        langAbbr: language.abbreviation,
+      })
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import { DataSource, In, Repository } from "typeorm"
+import { Service } from "typedi"
+
+import { DataSourceProvider } from "../providers"
+import { Quote, QuoteTranslation } from "../entities"
+
+/**
+ * Service for managing groups of quotes, which are translations of each other
+ */
+@Service()
+export class QuoteTranslationService {
+  private readonly dataSource: DataSource
+  private readonly quoteTranslationRepository: Repository<QuoteTranslation>
+
+  /**
+   * Constructor for QuoteTranslationService
+   *
+   * @param dataSourceProvider Data source provider (dependency)
+   */
+  public constructor(dataSourceProvider: DataSourceProvider) {
+    this.dataSource = dataSourceProvider.provide()
+
+    this.quoteTranslationRepository =
+      this.dataSource.getRepository(QuoteTranslation)
+  }
+
+  /**
+   * Saves translation groups of the quotes (and candidates compared with them)
+   *
+   * New groups (without an identifier) are created. Quotes are only updated
+   * (never inserted), so quotes deleted in the meantime (e.g., by loading
+   * a new revision of their page) are skipped.
+   *
+   * @param quotes Quotes with set translation groups (null for quotes without known translations)
+   */
+  public async saveLinks(quotes: Quote[]): Promise<void> {
+    const quotesByTranslation = new Map<QuoteTranslation | null, Quote[]>()
+    for (const quote of quotes) {
+      const translation = quote.translation ?? null
+      quotesByTranslation.set(translation, [
+        ...(quotesByTranslation.get(translation) ?? []),
+        quote,
+      ])
+    }
+
+    await this.dataSource.transaction(async (entityManager) => {
+      for (const [translation, translatedQuotes] of quotesByTranslation) {
+        const savedTranslation =
+          translation === null ? null : await entityManager.save(translation)
+
+        await entityManager.update(
+          Quote,
+          { id: In(translatedQuotes.map((quote) => quote.id)) },
+          { translation: savedTranslation },
+        )
+      }
+
+      // Quotes have different compared candidates, so they are updated at once
+      await entityManager.query(
+        'UPDATE quote SET "checkedTranslations" = checked.value FROM jsonb_each(CAST($1 AS jsonb)) AS checked WHERE quote.id = CAST(checked.key AS int)',
+        [
+          JSON.stringify(
+            Object.fromEntries(
+              quotes.map((quote) => [quote.id, quote.checkedTranslations]),
+            ),
+          ),
+        ],
+      )
+    })
+  }
+
+  /**
+   * Deletes translation groups with less than 2 quotes
+   *
+   * Groups lose their quotes when they are deleted (e.g., by loading a new
+   * revision of their page or purging their language). The remaining quote
+   * of the group is kept without any translation.
+   *
+   * @returns Number of deleted groups
+   */
+  public async deleteAllIncomplete(): Promise<number> {
+    const result = await this.quoteTranslationRepository
+      .createQueryBuilder()
+      .delete()
+      .where(
+        '(SELECT COUNT(*) FROM quote WHERE quote."translationId" = quote_translation.id) < 2',
+      )
+      .execute()
+
+    return result.affected ?? 0
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import { join } from "node:path"
+import { describe, it } from "node:test"
+
+import {
+  FixtureLanguageModel,
+  LanguageModelError,
+  LanguageModelRequest,
+} from "../src/parsing"
+
+/**
+ * Responses are replayed from the recorded fixtures file
+ */
+void describe("FixtureLanguageModel", () => {
+  const fixturesPath = join(__dirname, "fixtures", "languageModel.jsonl")
+
+  /**
+   * Composes the request with the user message
+   *
+   * @param schemaName Name of the JSON schema of the output
+   * @param input Text of the user message
+   * @returns Request for the language model
+   */
+  const composeRequest = (
+    schemaName: string,
+    input: string,
+  ): LanguageModelRequest => ({
+    messages: [
+      { role: "system", content: "Instructions aren't part of fixtures." },
+      { role: "user", content: input },
+    ],
+    schemaName: schemaName,
+    schema: {},
+    maxTokens: 32,
+  })
+
+  void it("replays the response for the prompt and input", async () => {
+    const languageModel = new FixtureLanguageModel("fixtures", fixturesPath)
+
+    const response = await languageModel.complete(
+      composeRequest(
+        "quote_translation",
+        'Albert Einstein: "Fantazie je důležitější než vědění."\n\nCandidates:\n1. "Imagination is more important than knowledge."',
+      ),
+    )
+
+    assert.deepEqual(response, {
+      content: '{"isTranslated":true,"candidateNumber":1}',
+      truncated: false,
+      usage: null,
+    })
+  })
+
+  void it("distinguishes prompts with the same input", async () => {
+    const languageModel = new FixtureLanguageModel("fixtures", fixturesPath)
+
+    await assert.rejects(
+      languageModel.complete(
+        composeRequest(
+          "quote_translation",
+          'Oscar Wilde: "Be yourself; everyone else is already taken."',
+        ),
+      ),
+      LanguageModelError,
+    )
+  })
+
+  void it("fails without retrying for inputs without fixtures", async () => {
+    const languageModel = new FixtureLanguageModel("fixtures", fixturesPath)
+
+    await assert.rejects(
+      languageModel.complete(
+        composeRequest("quote_evaluation", 'Oscar Wilde: "Be earnest."'),
+      ),
+      (error) => error instanceof LanguageModelError && !error.retryable,
+    )
+  })
+
+  void it("rejects requests if the fixtures file can't be read", async () => {
+    // The file is read by the first request, so the model is created anyway
+    const languageModel = new FixtureLanguageModel(
+      "fixtures",
+      join(__dirname, "fixtures", "missing.jsonl"),
+    )
+
+    await assert.rejects(
+      languageModel.complete(composeRequest("quote_evaluation", "")),
+      (error) =>
+        error instanceof LanguageModelError &&
+        !error.retryable &&
+        (error.cause as NodeJS.ErrnoException).code === "ENOENT",
+    )
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import {
+  FixtureLanguageModel,
+  LanguageModelProvider,
+  QuoteParser,
+  StructuredOutputClient,
+  UsageTracker,
+} from "../src/parsing"
+import { AiCacheService } from "../src/services"
+
+/**
+ * Examples in the prompt are followed by backends that don't enforce the schema
+ */
+void describe("QuoteParser", () => {
+  void it("gives examples of outputs matching the output schema", async () => {
+    const usageTracker = {} as unknown as UsageTracker
+    const structuredOutputClient = new StructuredOutputClient(
+      {
+        provide: () => new FixtureLanguageModel("fixtures", ""),
+      } as unknown as LanguageModelProvider,
+      usageTracker,
+    )
+    const quoteParser = new QuoteParser(
+      structuredOutputClient,
+      {
+        fetchResponse: () => Promise.reject(new Error("Not cached")),
+        hashInput: () => "hash",
+      } as unknown as AiCacheService,
+      usageTracker,
+    )
+
+    const scoringRequest = await quoteParser.composeScoringRequest(
+      "Oscar Wilde",
+      "Be yourself; everyone else is already taken.",
+    )
+    assert.ok(scoringRequest !== null)
+
+    const examples = [
+      ...scoringRequest.request.messages[0].content.matchAll(
+        /<output>\n(.*)\n<\/output>/g,
+      ),
+    ].map((match) => match[1])
+    assert.equal(examples.length, 3)
+    for (const example of examples) {
+      assert.doesNotThrow(() =>
+        structuredOutputClient.parseResponse(scoringRequest.request, {
+          content: example,
+          truncated: false,
+          usage: null,
+        }),
+      )
+    }
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+
+import { Author, Language, Quote } from "../src/entities"
+import { DataSourceProvider } from "../src/providers"
+import { PaginationService, QuoteService } from "../src/services"
+import { NotFoundError } from "../src/services/errors/notFound.error"
+
+/**
+ * Random quotes are drawn from pools of quote identifiers, which could be
+ * outdated (the database is replaced by recorded rows)
+ */
+void describe("QuoteService", () => {
+  const language = { abbreviation: "en" } as Language
+  const author = { id: 7 } as Author
+
+  let poolRows: { id: number; authorId: number }[]
+  let storedIds: Set<number>
+  let poolLoads: number
+  let queries: string[]
+  let quoteService: QuoteService
+
+  beforeEach(() => {
+    poolRows = []
+    storedIds = new Set()
+    poolLoads = 0
+    queries = []
+
+    // Parameters of the query are enough to answer it
+    const createQueryBuilder = () => {
+      const parameters: Record<string, unknown> = {}
+      const queryBuilder = new Proxy(
+        {
+          getRawMany: () => {
+            poolLoads++
+
+            return Promise.resolve(poolRows)
+          },
+          getRawOne: () => {
+            const ids = [...storedIds].filter(
+              (id) =>
+                parameters.authorId === undefined ||
+                poolRows.find((row) => row.id === id)?.authorId ===
+                  parameters.authorId,
+            )
+
+            return Promise.resolve(
+              ids.length === 0 ? undefined : { id: ids[0] },
+            )
+          },
+          getOne: () =>
+            Promise.resolve(
+              storedIds.has(parameters.id as number)
+                ? ({ id: parameters.id } as Quote)
+                : null,
+            ),
+          execute: () => Promise.resolve({ affected: 1 }),
+        },
+        {
+          get: (target, property) =>
+            property in target
+              ? target[property as keyof typeof target]
+              : (_condition: unknown, values?: Record<string, unknown>) => {
+                  Object.assign(parameters, values)
+
+                  return queryBuilder
+                },
+        },
+      )
+
+      return queryBuilder
+    }
+
+    quoteService = new QuoteService(
+      {
+        provide: () => ({
+          getRepository: () => ({
+            createQueryBuilder: createQueryBuilder,
+            save: () => Promise.resolve(),
+            query: (query: string) => {
+              queries.push(query)
+
+              return Promise.resolve([])
+            },
+          }),
+        }),
+      } as unknown as DataSourceProvider,
+      {} as PaginationService,
+    )
+  })
+
+  void it("draws quotes from the pool", async () => {
+    poolRows = [{ id: 1, authorId: 7 }]
+    storedIds = new Set([1])
+
+    const quote = await quoteService.fetchRandomQuoteByLanguage(language)
+
+    assert.equal(quote.id, 1)
+    assert.equal(poolLoads, 1)
+  })
+
+  void it("falls back to the database for quotes missing in the fresh pool", async () => {
+    poolRows = [{ id: 1, authorId: 7 }]
+    await quoteService.fetchRandomQuoteByLanguage(language).catch(() => null)
+
+    // The only quote of the pool was replaced after the pool was loaded
+    poolRows = [{ id: 2, authorId: 7 }]
+    storedIds = new Set([2])
+    const quote = await quoteService.fetchRandomQuoteByLanguageAndAuthor(
+      language,
+      author,
+    )
+
+    assert.equal(quote.id, 2)
+  })
+
+  void it("throws NotFoundError if there are no quotes", async () => {
+    poolRows = [{ id: 1, authorId: 8 }]
+    storedIds = new Set([1])
+
+    await assert.rejects(
+      quoteService.fetchRandomQuoteByLanguageAndAuthor(language, author),
+      NotFoundError,
+    )
+  })
+  void it("indexes quotes saved outside of loading", async () => {
+    const german = { abbreviation: "de", textSearchConfig: "german" }
+
+    await quoteService.saveAll([
+      { language: german } as Quote,
+      { language: german } as Quote,
+    ])
+
+    assert.deepEqual(
+      queries.filter((query) => query.startsWith("CREATE TEXT SEARCH")),
+      ["CREATE TEXT SEARCH CONFIGURATION quote_search_de (COPY = german)"],
+    )
+  })
+})
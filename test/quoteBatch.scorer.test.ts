@@ -0,0 +1,272 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import {
+  createReadStream,
+  existsSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+
+import {
+  LanguageModelProvider,
+  OpenAiLanguageModel,
+  QuoteBatchScorer,
+  QuoteParser,
+  RateLimiter,
+  StructuredOutputClient,
+  UsageTracker,
+} from "../src/parsing"
+import { ConfigProvider } from "../src/providers"
+import { AiCacheService } from "../src/services"
+
+/**
+ * Results of batches are read from recorded output and error files, and they
+ * are parsed by the quote parser (only the AI cache is replaced)
+ */
+void describe("QuoteBatchScorer", () => {
+  const fixturesPath = join(__dirname, "fixtures")
+
+  let log: ReturnType<typeof mock.method>
+  let error: ReturnType<typeof mock.method>
+  let languageModel: OpenAiLanguageModel
+  let usageTracker: UsageTracker
+  let cachedResponses: Map<string, string>
+  let jobDirectory: string
+  let jobPath: string
+  let inputFile: string
+  let scorer: QuoteBatchScorer
+
+  beforeEach(() => {
+    mock.restoreAll()
+    log = mock.method(console, "log", () => undefined)
+    error = mock.method(console, "error", () => undefined)
+
+    languageModel = new OpenAiLanguageModel(
+      "gpt-4.1-mini",
+      "none",
+      undefined,
+      new RateLimiter(),
+    )
+    usageTracker = new UsageTracker({
+      provideAiApiConfig: () => ({}),
+    } as unknown as ConfigProvider)
+    usageTracker.startRun(null)
+    cachedResponses = new Map()
+
+    // The job was interrupted while waiting for its batch
+    jobDirectory = mkdtempSync(join(tmpdir(), "quote-batch-"))
+    jobPath = join(jobDirectory, "job.json")
+    inputFile = `${jobPath}-1.jsonl`
+    writeFileSync(inputFile, "")
+    writeFileSync(
+      jobPath,
+      JSON.stringify({
+        timestamp: Date.now(),
+        sourceChecksum: "checksum",
+        parts: [
+          {
+            inputFile: inputFile,
+            requestCount: 6,
+            estimatedCost: 0.01,
+            inputFileId: "file-input",
+            batchId: "batch_1",
+            processed: false,
+          },
+        ],
+      }),
+    )
+
+    const languageModelProvider = {
+      provide: () => languageModel,
+    } as unknown as LanguageModelProvider
+    const quoteParser = new QuoteParser(
+      new StructuredOutputClient(languageModelProvider, usageTracker),
+      {
+        saveResponseByInputHash: (
+          _cachedPrompt: unknown,
+          inputHash: string,
+          response: string,
+        ): Promise<void> => {
+          cachedResponses.set(inputHash, response)
+
+          return Promise.resolve()
+        },
+      } as unknown as AiCacheService,
+      usageTracker,
+    )
+    scorer = new QuoteBatchScorer(
+      languageModelProvider,
+      quoteParser,
+      usageTracker,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(jobDirectory, { recursive: true, force: true })
+  })
+
+  /**
+   * Mocks the batch in its final state and contents of its files
+   *
+   * @param batch Properties of the batch
+   * @returns Mock of the API call for reading file contents
+   */
+  const mockBatch = (batch: Record<string, unknown>) => {
+    mock.method(languageModel.client.batches, "retrieve", () =>
+      Promise.resolve({ id: "batch_1", ...batch }),
+    )
+
+    const files = new Map([
+      ["file-output", "batchOutput.jsonl"],
+      ["file-errors", "batchErrors.jsonl"],
+    ])
+    return mock.method(languageModel.client.files, "content", (id: string) =>
+      Promise.resolve({
+        body: createReadStream(join(fixturesPath, files.get(id) ?? "")),
+      }),
+    )
+  }
+
+  void it("saves successful responses of the output file", async () => {
+    mockBatch({
+      status: "completed",
+      output_file_id: "file-output",
+      error_file_id: "file-errors",
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    // Truncated responses are scored to 0 (as by standard API calls)
+    assert.deepEqual(
+      new Map(
+        [...cachedResponses].map(([inputHash, response]) => [
+          inputHash,
+          JSON.parse(response) as unknown,
+        ]),
+      ),
+      new Map([
+        [
+          "a1",
+          {
+            score: 91,
+            cleanQuote: "Be yourself; everyone else is already taken.",
+          },
+        ],
+        ["c3", { score: 0, cleanQuote: "" }],
+        ["f6", { score: 0, cleanQuote: "" }],
+      ]),
+    )
+  })
+
+  void it("records usage of parsed responses with the batch discount", async () => {
+    mockBatch({
+      status: "completed",
+      output_file_id: "file-output",
+      error_file_id: null,
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    const usage = usageTracker.summarizeRun().byParser.quote
+    assert.equal(usage.requests, 4)
+    assert.equal(usage.inputTokens, 412 + 430 + 436 + 445)
+    assert.equal(usage.outputTokens, 18 + 2048 + 6 + 10)
+    assert.equal(
+      usage.cost,
+      usageTracker.computeCost(
+        "gpt-4.1-mini",
+        { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens },
+        true,
+      ),
+    )
+  })
+
+  void it("reports responses not matching the output schema", async () => {
+    mockBatch({
+      status: "completed",
+      output_file_id: "file-output",
+      error_file_id: null,
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    const messages = log.mock.calls.map((call) => String(call.arguments[0]))
+    assert.ok(
+      messages.includes(
+        "[WARNING] 1 responses of batch batch_1 were invalid. Their quote candidates will be scored one by one.",
+      ),
+    )
+    assert.ok(!cachedResponses.has("e5"))
+    assert.equal(error.mock.callCount(), 1)
+  })
+
+  void it("reports the first error of the error file", async () => {
+    mockBatch({
+      status: "completed",
+      output_file_id: "file-output",
+      error_file_id: "file-errors",
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    const messages = log.mock.calls.map((call) => String(call.arguments[0]))
+    assert.ok(
+      messages.includes(
+        "[WARNING] 2 requests of batch batch_1 failed. Their quote candidates will be scored one by one.",
+      ),
+    )
+    assert.ok(
+      messages.includes(
+        "[WARNING] Request d4 of batch batch_1 failed: This request could not be executed before the completion window expired.",
+      ),
+    )
+  })
+
+  void it("skips missing files of batches without results", async () => {
+    // The API returns null for missing files
+    const content = mockBatch({
+      status: "expired",
+      output_file_id: null,
+      error_file_id: null,
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    assert.equal(cachedResponses.size, 0)
+    assert.equal(content.mock.callCount(), 0)
+  })
+
+  void it("removes files of the finished job", async () => {
+    mockBatch({
+      status: "completed",
+      output_file_id: "file-output",
+      error_file_id: null,
+    })
+
+    await scorer.score(jobPath, "checksum", () => {
+      throw new Error("Candidates of the resumed job shouldn't be collected")
+    })
+
+    assert.equal(existsSync(jobPath), false)
+    assert.equal(existsSync(inputFile), false)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+
+import {
+  AvailableWikiDump,
+  DumpChecksumError,
+  WikiDumpFetcher,
+} from "../src/loading"
+import { ConfigProvider } from "../src/providers"
+
+/**
+ * Dumps are fetched from the recorded mirror in a local directory
+ */
+void describe("WikiDumpFetcher", () => {
+  const mirrorPath = join(__dirname, "fixtures", "mirror")
+  const dumpFileName = "enwikiquote-20260901-pages-meta-current.xml.bz2"
+  const pagePropsFileName = "enwikiquote-20260901-page_props.sql.gz"
+
+  let downloadPath: string
+  let fetcher: WikiDumpFetcher
+
+  beforeEach(() => {
+    mock.restoreAll()
+    mock.method(console, "log", () => undefined)
+
+    downloadPath = mkdtempSync(join(tmpdir(), "wiki-dumps-"))
+    fetcher = new WikiDumpFetcher({
+      provideDumpMirrorConfig: () => ({
+        mirrorUrl: mirrorPath,
+        downloadPath: downloadPath,
+        languages: ["en"],
+        refreshInterval: 0,
+      }),
+    } as unknown as ConfigProvider)
+  })
+
+  afterEach(() => {
+    rmSync(downloadPath, { recursive: true, force: true })
+  })
+
+  void it("finds the newest dump with published checksums", async () => {
+    const dump = await fetcher.findNewest("en")
+
+    // The newer dump is still in progress (it has no sha1sums file)
+    assert.deepEqual(dump, {
+      language: "en",
+      date: "20260901",
+      fileName: dumpFileName,
+      sha1: "ebc5f26a2f6012db54b832917f0c297d5be9b3e1",
+      pageProps: {
+        fileName: pagePropsFileName,
+        sha1: "6c896bbacf5efb6c4fc80860eb85cb11b28de8b6",
+      },
+    })
+  })
+
+  void it("downloads files of the dump with matching checksums", async () => {
+    const dump = (await fetcher.findNewest("en")) as AvailableWikiDump
+
+    const path = await fetcher.download(dump)
+
+    assert.equal(path, join(downloadPath, dumpFileName))
+    for (const fileName of [dumpFileName, pagePropsFileName]) {
+      assert.deepEqual(
+        readFileSync(join(downloadPath, fileName)),
+        readFileSync(join(mirrorPath, "enwikiquote", "20260901", fileName)),
+      )
+    }
+  })
+
+  void it("rejects the file with a different checksum", async () => {
+    const dump = (await fetcher.findNewest("en")) as AvailableWikiDump
+    dump.sha1 = "0000000000000000000000000000000000000000"
+
+    await assert.rejects(fetcher.download(dump), DumpChecksumError)
+
+    // Neither the file nor its part is kept, so it's downloaded again next time
+    assert.equal(existsSync(join(downloadPath, dumpFileName)), false)
+    assert.equal(existsSync(join(downloadPath, `${dumpFileName}.part`)), false)
+  })
+})
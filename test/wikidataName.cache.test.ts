@@ -0,0 +1,93 @@
+/**
+ * @author Michal Šmahel (xsmahe01)
+ * @date October 2026
+ */
+
+import "reflect-metadata"
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+
+import { WikidataClient } from "../src/loading"
+import { WikidataNameCache } from "../src/loading/wikidataName.cache"
+
+/**
+ * Names are fetched by a fake client, which knows only items with even numbers
+ * (the other ones aren't humans)
+ */
+void describe("WikidataNameCache", () => {
+  // Page IDs don't follow the order of items
+  const wikidataItems = new Map(
+    Array.from({ length: 120 }, (_, i) => [1000 - i, `Q${String(120 - i)}`]),
+  )
+
+  let requests: string[][]
+  let failing: boolean
+  let cache: WikidataNameCache
+
+  beforeEach(() => {
+    requests = []
+    failing = false
+
+    cache = new WikidataNameCache(
+      {
+        fetchPeopleNames: (wikidataIds: string[]) => {
+          requests.push(wikidataIds)
+          if (failing) {
+            return Promise.reject(new Error("Wikidata API request failed"))
+          }
+
+          return Promise.resolve(
+            new Map(
+              wikidataIds
+                .filter((wikidataId) => Number(wikidataId.slice(1)) % 2 === 0)
+                .map((wikidataId) => [wikidataId, `Person ${wikidataId}`]),
+            ),
+          )
+        },
+      } as unknown as WikidataClient,
+      wikidataItems,
+    )
+  })
+
+  /**
+   * Fetches names of all items in the order of their pages (as they are read)
+   *
+   * @returns Fetched names
+   */
+  const fetchAllNames = async () => {
+    const pageIds = [...wikidataItems.keys()].sort((a, b) => a - b)
+
+    return await Promise.all(
+      pageIds.map((pageId) =>
+        cache.fetchName(wikidataItems.get(pageId) as string),
+      ),
+    )
+  }
+
+  void it("fetches items of the following pages together", async () => {
+    const names = await fetchAllNames()
+
+    assert.deepEqual(
+      requests.map((wikidataIds) => wikidataIds.length),
+      [50, 50, 20],
+    )
+    assert.deepEqual(requests[0].slice(0, 3), ["Q1", "Q2", "Q3"])
+    assert.equal(names[0], null)
+    assert.equal(names[1], "Person Q2")
+  })
+
+  void it("fetches each item once per run", async () => {
+    await fetchAllNames()
+    await fetchAllNames()
+
+    assert.equal(requests.flat().length, wikidataItems.size)
+  })
+
+  void it("rejects names of items from failed requests", async () => {
+    failing = true
+
+    await assert.rejects(cache.fetchName("Q60"), /Wikidata API request failed/)
+    await assert.rejects(cache.fetchName("Q61"), /Wikidata API request failed/)
+    assert.equal(requests.length, 1)
+  })
+})